@@ -1,21 +1,32 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, describeApiError } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Building2, TrendingUp, TrendingDown, ArrowDownToLine, ArrowUpFromLine } from "lucide-react";
+import { Building2, TrendingUp, TrendingDown, ArrowDownToLine, ArrowUpFromLine, Euro, HandCoins } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { ComplianceBalanceResponse, BankEntry } from "@shared/schema";
+import type { ComplianceBalanceResponse, BankEntry, BankBalance, PenaltyResponse, Ship } from "@shared/schema";
 
 export default function BankingTab() {
   const { toast } = useToast();
   const [selectedYear, setSelectedYear] = useState<number>(2025);
-  const [shipId, setShipId] = useState<string>("SHIP001");
+  const [shipId, setShipId] = useState<string>("");
   const [bankAmount, setBankAmount] = useState<string>("");
   const [applyAmount, setApplyAmount] = useState<string>("");
+  const [borrowAmount, setBorrowAmount] = useState<string>("");
+
+  const { data: ships = [] } = useQuery<Ship[]>({
+    queryKey: ["/api/ships"],
+  });
+
+  // Default to the first registered ship once the registry loads
+  useEffect(() => {
+    if (!shipId && ships.length > 0) setShipId(ships[0].imoNumber);
+  }, [ships, shipId]);
 
   const { data: cbData } = useQuery<ComplianceBalanceResponse>({
     queryKey: ["/api/compliance/cb", shipId, selectedYear],
@@ -27,6 +38,27 @@ export default function BankingTab() {
     enabled: !!shipId,
   });
 
+  const { data: penaltyData } = useQuery<PenaltyResponse>({
+    queryKey: ["/api/compliance/penalty", shipId, selectedYear],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/compliance/penalty?shipId=${encodeURIComponent(shipId)}&year=${selectedYear}`
+      );
+      return res.json();
+    },
+    enabled: !!shipId,
+  });
+
+  const { data: bankBalances } = useQuery<BankBalance[]>({
+    queryKey: ["/api/banking/balances", shipId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/banking/balances?shipId=${encodeURIComponent(shipId)}`);
+      return res.json();
+    },
+    enabled: !!shipId,
+  });
+
   const bankMutation = useMutation({
     mutationFn: async () => {
       return apiRequest("POST", "/api/banking/bank", {
@@ -38,6 +70,8 @@ export default function BankingTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance/cb"] });
       queryClient.invalidateQueries({ queryKey: ["/api/banking/records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/banking/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/penalty"] });
       setBankAmount("");
       toast({
         title: "Surplus Banked",
@@ -47,7 +81,7 @@ export default function BankingTab() {
     onError: (error: Error) => {
       toast({
         title: "Banking Failed",
-        description: error.message || "Unable to bank surplus. Please check your inputs.",
+        description: describeApiError(error) || "Unable to bank surplus. Please check your inputs.",
         variant: "destructive",
       });
     },
@@ -64,6 +98,8 @@ export default function BankingTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/compliance/cb"] });
       queryClient.invalidateQueries({ queryKey: ["/api/banking/records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/banking/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/penalty"] });
       setApplyAmount("");
       toast({
         title: "Banked Surplus Applied",
@@ -73,16 +109,47 @@ export default function BankingTab() {
     onError: (error: Error) => {
       toast({
         title: "Application Failed",
-        description: error.message || "Unable to apply banked surplus. Please check your inputs.",
+        description: describeApiError(error) || "Unable to apply banked surplus. Please check your inputs.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const borrowMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/banking/borrow", {
+        shipId,
+        year: selectedYear,
+        amount: parseFloat(borrowAmount),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/cb"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/banking/records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/banking/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/penalty"] });
+      setBorrowAmount("");
+      toast({
+        title: "Advance Surplus Borrowed",
+        description: "The borrowed amount will be repaid ×1.1 from next year's compliance balance.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Borrowing Failed",
+        description: describeApiError(error) || "Unable to borrow advance surplus. Please check your inputs.",
         variant: "destructive",
       });
     },
   });
 
-  const totalBanked = bankRecords?.reduce((sum, entry) => sum + entry.amountGco2eq, 0) || 0;
+  // Only surplus banked in earlier years can be carried into the selected year
+  const carryForward = bankBalances?.filter((b) => b.originYear < selectedYear && b.available > 0) || [];
+  const totalBanked = carryForward.reduce((sum, b) => sum + b.available, 0);
   const currentCB = cbData?.cb || 0;
   const isSurplus = currentCB > 0;
   const isDeficit = currentCB < 0;
+  const penalty = (penaltyData?.penalty || 0) + (penaltyData?.rfnboPenalty || 0);
 
   return (
     <div className="space-y-6">
@@ -98,15 +165,19 @@ export default function BankingTab() {
         <CardContent className="p-6">
           <div className="flex flex-wrap gap-4">
             <div className="flex-1 min-w-[200px]">
-              <Label htmlFor="shipId">Ship ID</Label>
-              <Input
-                id="shipId"
-                value={shipId}
-                onChange={(e) => setShipId(e.target.value)}
-                placeholder="Enter ship ID"
-                data-testid="input-ship-id"
-                className="mt-2"
-              />
+              <Label htmlFor="shipId">Ship</Label>
+              <Select value={shipId} onValueChange={setShipId}>
+                <SelectTrigger id="shipId" data-testid="select-ship-id" className="mt-2">
+                  <SelectValue placeholder="Select a ship" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ships.map((ship) => (
+                    <SelectItem key={ship.imoNumber} value={ship.imoNumber}>
+                      {ship.name} (IMO {ship.imoNumber})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="flex-1 min-w-[200px]">
               <Label htmlFor="year">Year</Label>
@@ -125,7 +196,7 @@ export default function BankingTab() {
       </Card>
 
       {/* KPI Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-2">
@@ -159,13 +230,37 @@ export default function BankingTab() {
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-2">
-              <div className="text-sm text-muted-foreground">Total Banked</div>
+              <div className="text-sm text-muted-foreground">Penalty Exposure</div>
+              <Euro className="w-5 h-5 text-muted-foreground" />
+            </div>
+            <div
+              className={`text-3xl font-bold font-mono ${
+                penalty > 0 ? "text-red-600 dark:text-red-400" : "text-foreground"
+              }`}
+              data-testid="text-penalty"
+            >
+              €{penalty.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {penaltyData && penaltyData.penalty > 0
+                ? `${penaltyData.vlsfoEquivalentTonnes.toLocaleString(undefined, { maximumFractionDigits: 1 })} t VLSFO-eq × €2,400 × ${penaltyData.escalationFactor.toFixed(1)}`
+                : "No deficit for this period"}
+              {penaltyData && penaltyData.rfnboPenalty > 0 &&
+                ` • RFNBO shortfall €${penaltyData.rfnboPenalty.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm text-muted-foreground">Carry-Forward</div>
               <Building2 className="w-5 h-5 text-muted-foreground" />
             </div>
             <div className="text-3xl font-bold font-mono text-foreground" data-testid="text-total-banked">
               {totalBanked.toLocaleString(undefined, { maximumFractionDigits: 0 })}
             </div>
-            <div className="text-xs text-muted-foreground mt-1">gCO₂eq available</div>
+            <div className="text-xs text-muted-foreground mt-1">gCO₂eq available for {selectedYear}</div>
           </CardContent>
         </Card>
 
@@ -185,7 +280,7 @@ export default function BankingTab() {
       </div>
 
       {/* Banking Actions */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Bank Surplus */}
         <Card>
           <CardHeader>
@@ -267,8 +362,107 @@ export default function BankingTab() {
             )}
           </CardContent>
         </Card>
+
+        {/* Borrow Advance Surplus */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <HandCoins className="w-4 h-4" />
+              Borrow Advance Surplus
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Cover a deficit with up to 2% of the target intensity × energy in scope. Repaid ×1.1 next year; not allowed two years in a row.
+            </p>
+            <div>
+              <Label htmlFor="borrowAmount">Amount to Borrow (gCO₂eq)</Label>
+              <Input
+                id="borrowAmount"
+                type="number"
+                value={borrowAmount}
+                onChange={(e) => setBorrowAmount(e.target.value)}
+                placeholder="Enter amount"
+                disabled={!isDeficit}
+                data-testid="input-borrow-amount"
+                className="mt-2"
+              />
+            </div>
+            <Button
+              onClick={() => borrowMutation.mutate()}
+              disabled={!isDeficit || !borrowAmount || parseFloat(borrowAmount) <= 0 || borrowMutation.isPending}
+              className="w-full"
+              data-testid="button-borrow-surplus"
+            >
+              {borrowMutation.isPending ? "Borrowing..." : "Borrow Advance Surplus"}
+            </Button>
+            {!isDeficit && (
+              <p className="text-xs text-muted-foreground">
+                Borrowing is disabled because current CB is not negative
+              </p>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Carry-Forward by Origin Year */}
+      {bankBalances && bankBalances.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Banked Surplus by Origin Year</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
+                      Origin Year
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-foreground">
+                      Banked (gCO₂eq)
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-foreground">
+                      Applied (gCO₂eq)
+                    </th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-foreground">
+                      Available (gCO₂eq)
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {bankBalances.map((balance) => (
+                    <tr
+                      key={balance.originYear}
+                      className="hover-elevate"
+                      data-testid={`row-balance-${balance.originYear}`}
+                    >
+                      <td className="px-4 py-3 text-sm text-foreground">
+                        {balance.originYear}
+                        {balance.originYear >= selectedYear && (
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            Not yet usable
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                        {balance.banked.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                        {balance.applied.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                        {balance.available.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Banking History */}
       {bankRecords && bankRecords.length > 0 && (
         <Card>
@@ -289,6 +483,12 @@ export default function BankingTab() {
                     <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
                       Year
                     </th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
+                      Type
+                    </th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
+                      Origin Year
+                    </th>
                     <th className="px-4 py-3 text-right text-sm font-medium text-foreground">
                       Amount (gCO₂eq)
                     </th>
@@ -304,8 +504,23 @@ export default function BankingTab() {
                         {entry.shipId}
                       </td>
                       <td className="px-4 py-3 text-sm text-foreground">{entry.year}</td>
-                      <td className="px-4 py-3 text-sm font-mono text-right text-green-600 dark:text-green-400">
-                        +{entry.amountGco2eq.toLocaleString()}
+                      <td className="px-4 py-3 text-sm text-foreground">
+                        <Badge variant={entry.entryType === "borrow" ? "destructive" : "secondary"}>
+                          {entry.entryType}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-foreground">
+                        {entry.originYear ?? "—"}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-sm font-mono text-right ${
+                          entry.amountGco2eq >= 0
+                            ? "text-green-600 dark:text-green-400"
+                            : "text-red-600 dark:text-red-400"
+                        }`}
+                      >
+                        {entry.amountGco2eq >= 0 && "+"}
+                        {entry.amountGco2eq.toLocaleString()}
                       </td>
                     </tr>
                   ))}
@@ -2,22 +2,35 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle2, XCircle, TrendingDown, TrendingUp } from "lucide-react";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
-import type { ComparisonResult } from "@shared/schema";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { apiRequest } from "@/lib/queryClient";
+import type { ComparisonResult, Page, TargetIntensityResponse } from "@shared/schema";
 
-const TARGET_INTENSITY = 89.3368;
+// The chart stays readable up to a few hundred routes; the Routes tab pages through the rest
+const COMPARISON_LIMIT = 200;
 
 export default function CompareTab() {
-  const { data: comparisons, isLoading } = useQuery<ComparisonResult[]>({
-    queryKey: ["/api/routes/comparison"],
+  const { data: page, isLoading } = useQuery<Page<ComparisonResult>>({
+    queryKey: ["/api/routes/comparison", { limit: COMPARISON_LIMIT }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/routes/comparison?limit=${COMPARISON_LIMIT}`);
+      return res.json();
+    },
   });
+  const comparisons = page?.items;
 
-  const baseline = comparisons?.find((c) => c.route.isBaseline);
+  // Every comparison carries the baseline, which need not be on this page
+  const baseline = comparisons?.[0];
+  const targetYear = baseline?.baselineYear ?? new Date().getFullYear();
+
+  const { data: target } = useQuery<TargetIntensityResponse>({
+    queryKey: [`/api/compliance/target?year=${targetYear}`],
+  });
 
   const chartData = comparisons?.map((comp) => ({
     name: comp.route.routeId,
     intensity: parseFloat(comp.route.ghgIntensity.toFixed(2)),
-    target: TARGET_INTENSITY,
+    target: parseFloat(comp.targetIntensity.toFixed(4)),
   })) || [];
 
   return (
@@ -25,7 +38,7 @@ export default function CompareTab() {
       <div>
         <h2 className="text-xl font-semibold text-foreground">Compliance Comparison</h2>
         <p className="text-sm text-muted-foreground mt-1">
-          Compare route GHG intensities against the baseline and 2025 target
+          Compare route GHG intensities against the baseline and the target for each reporting period
         </p>
       </div>
 
@@ -33,11 +46,13 @@ export default function CompareTab() {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardContent className="p-6">
-            <div className="text-sm text-muted-foreground mb-2">Target Intensity (2025)</div>
+            <div className="text-sm text-muted-foreground mb-2">Target Intensity ({targetYear})</div>
             <div className="text-3xl font-bold font-mono text-foreground">
-              {TARGET_INTENSITY.toFixed(4)}
+              {target ? target.targetIntensity.toFixed(4) : "—"}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              gCO₂e/MJ{target && ` • −${target.reductionPercent}% vs ${target.referenceIntensity}`}
             </div>
-            <div className="text-xs text-muted-foreground mt-1">gCO₂e/MJ</div>
           </CardContent>
         </Card>
 
@@ -47,10 +62,10 @@ export default function CompareTab() {
               <CardContent className="p-6">
                 <div className="text-sm text-muted-foreground mb-2">Baseline Intensity</div>
                 <div className="text-3xl font-bold font-mono text-foreground">
-                  {baseline.route.ghgIntensity.toFixed(4)}
+                  {baseline.baselineIntensity.toFixed(4)}
                 </div>
                 <div className="text-xs text-muted-foreground mt-1">
-                  {baseline.route.routeId} • {baseline.route.year}
+                  {baseline.baselineRouteId} • {baseline.baselineYear}
                 </div>
               </CardContent>
             </Card>
@@ -85,7 +100,7 @@ export default function CompareTab() {
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
                 <XAxis 
                   dataKey="name" 
@@ -111,24 +126,32 @@ export default function CompareTab() {
                   labelStyle={{ color: "hsl(var(--foreground))" }}
                 />
                 <Legend />
-                <ReferenceLine 
-                  y={TARGET_INTENSITY} 
-                  stroke="hsl(var(--destructive))" 
-                  strokeDasharray="3 3"
-                  label={{ value: "Target", fill: "hsl(var(--destructive))" }}
-                />
                 <Bar 
                   dataKey="intensity" 
                   fill="hsl(var(--primary))" 
                   name="GHG Intensity"
                   radius={[4, 4, 0, 0]}
                 />
-              </BarChart>
+                <Line 
+                  type="stepAfter"
+                  dataKey="target" 
+                  stroke="hsl(var(--destructive))" 
+                  strokeDasharray="3 3"
+                  dot={false}
+                  name="Target"
+                />
+              </ComposedChart>
             </ResponsiveContainer>
           </CardContent>
         </Card>
       )}
 
+      {page && page.total > page.items.length && (
+        <p className="text-sm text-muted-foreground" data-testid="text-comparison-truncated">
+          Showing the first {page.items.length.toLocaleString()} of {page.total.toLocaleString()} routes.
+        </p>
+      )}
+
       {/* Comparison Table */}
       <Card>
         <CardContent className="p-0">
@@ -168,7 +191,7 @@ export default function CompareTab() {
                 </thead>
                 <tbody className="divide-y">
                   {comparisons.map((comp) => {
-                    const vsTarget = ((comp.route.ghgIntensity / TARGET_INTENSITY - 1) * 100);
+                    const vsTarget = ((comp.route.ghgIntensity / comp.targetIntensity - 1) * 100);
                     return (
                       <tr
                         key={comp.route.id}
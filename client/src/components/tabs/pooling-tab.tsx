@@ -1,15 +1,16 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, describeApiError } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Users, Plus, Trash2, CheckCircle2, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { ComplianceBalanceResponse, PoolCreationRequest, PoolCreationResponse } from "@shared/schema";
+import type { ComplianceBalanceResponse, PoolCreationRequest, PoolCreationResponse, Ship } from "@shared/schema";
 
 interface PoolMember {
   shipId: string;
@@ -22,6 +23,11 @@ export default function PoolingTab() {
   const [newShipId, setNewShipId] = useState<string>("");
   const [poolMembers, setPoolMembers] = useState<PoolMember[]>([]);
 
+  const { data: ships = [] } = useQuery<Ship[]>({
+    queryKey: ["/api/ships"],
+  });
+  const availableShips = ships.filter(ship => !poolMembers.some(m => m.shipId === ship.imoNumber));
+
   const createPoolMutation = useMutation({
     mutationFn: async (request: PoolCreationRequest) => {
       return apiRequest<PoolCreationResponse>("POST", "/api/pools", request);
@@ -36,7 +42,7 @@ export default function PoolingTab() {
     onError: (error: Error) => {
       toast({
         title: "Pool Creation Failed",
-        description: error.message || "Unable to create pool. Please check validation rules.",
+        description: describeApiError(error) || "Unable to create pool. Please check validation rules.",
         variant: "destructive",
       });
     },
@@ -46,7 +52,7 @@ export default function PoolingTab() {
     if (!newShipId) {
       toast({
         title: "Invalid Input",
-        description: "Please enter a ship ID",
+        description: "Please select a ship",
         variant: "destructive",
       });
       return;
@@ -154,17 +160,18 @@ export default function PoolingTab() {
         <CardContent>
           <div className="flex gap-4">
             <div className="flex-1">
-              <Input
-                value={newShipId}
-                onChange={(e) => setNewShipId(e.target.value)}
-                placeholder="Enter ship ID (e.g., SHIP001)"
-                data-testid="input-new-ship-id"
-                onKeyPress={(e) => {
-                  if (e.key === "Enter") {
-                    addMember();
-                  }
-                }}
-              />
+              <Select value={newShipId} onValueChange={setNewShipId}>
+                <SelectTrigger data-testid="select-new-ship-id">
+                  <SelectValue placeholder="Select a ship" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableShips.map((ship) => (
+                    <SelectItem key={ship.imoNumber} value={ship.imoNumber}>
+                      {ship.name} (IMO {ship.imoNumber})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <Button onClick={addMember} data-testid="button-add-member">
               <Plus className="w-4 h-4 mr-2" />
@@ -1,54 +1,177 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest, describeApiError } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Filter, Star } from "lucide-react";
+import { ChevronDown, ChevronRight, Filter, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { Route } from "@shared/schema";
+import type {
+  Page,
+  Route,
+  RouteFacets,
+  RouteFuelLinesResponse,
+  RouteSortField,
+  SortOrder,
+  VoyageScope
+} from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const SORT_LABELS: Record<RouteSortField, string> = {
+  routeId: "Route ID",
+  vesselType: "Vessel Type",
+  fuelType: "Fuel Type",
+  year: "Year",
+  ghgIntensity: "GHG Intensity",
+  fuelConsumption: "Fuel Consumption",
+  distance: "Distance",
+  totalEmissions: "Total Emissions",
+};
+
+const VOYAGE_SCOPE_LABELS: Record<VoyageScope, string> = {
+  intra_eu: "Intra-EU",
+  eu_to_third_country: "EU → Non-EU (50%)",
+  third_country_to_eu: "Non-EU → EU (50%)",
+  at_berth: "At Berth",
+};
+
+function FuelBreakdownRow({ routeId, colSpan }: { routeId: string; colSpan: number }) {
+  const { data, isLoading } = useQuery<RouteFuelLinesResponse>({
+    queryKey: ["/api/routes", routeId, "fuels"],
+  });
+
+  return (
+    <tr className="bg-muted/30" data-testid={`row-fuel-breakdown-${routeId}`}>
+      <td colSpan={colSpan} className="px-8 py-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading fuel breakdown...</p>
+        ) : data && data.lines.length > 0 && data.breakdown ? (
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className="py-2 text-left text-xs font-medium text-muted-foreground">Fuel</th>
+                <th className="py-2 text-left text-xs font-medium text-muted-foreground">Consumer</th>
+                <th className="py-2 text-right text-xs font-medium text-muted-foreground">CH₄ Slip</th>
+                <th className="py-2 text-right text-xs font-medium text-muted-foreground">Mass (t)</th>
+                <th className="py-2 text-right text-xs font-medium text-muted-foreground">Energy (MJ)</th>
+                <th className="py-2 text-right text-xs font-medium text-muted-foreground">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.lines.map((line, index) => {
+                const fuel = data.breakdown!.fuels[index];
+                const energy = fuel?.energyMJ ?? 0;
+                return (
+                  <tr key={line.id}>
+                    <td className="py-1 text-sm text-foreground">{line.fuelType}</td>
+                    <td className="py-1 text-sm text-muted-foreground">{line.consumer || "—"}</td>
+                    <td className="py-1 text-sm font-mono text-right text-foreground">
+                      {fuel && fuel.cslip > 0 ? `${fuel.cslip}%` : "—"}
+                    </td>
+                    <td className="py-1 text-sm font-mono text-right text-foreground">
+                      {line.massTonnes.toLocaleString()}
+                    </td>
+                    <td className="py-1 text-sm font-mono text-right text-foreground">
+                      {energy.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </td>
+                    <td className="py-1 text-sm font-mono text-right text-foreground">
+                      {((energy / data.breakdown!.energyMJ) * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t">
+                <td colSpan={4} className="py-2 text-sm font-medium text-foreground">
+                  Well-to-wake intensity
+                </td>
+                <td colSpan={2} className="py-2 text-sm font-mono text-right text-foreground">
+                  {data.breakdown.ghgIntensity.toFixed(2)} gCO₂e/MJ
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No fuel lines recorded. Totals come from the route's single fuel type.
+          </p>
+        )}
+      </td>
+    </tr>
+  );
+}
 
 export default function RoutesTab() {
   const { toast } = useToast();
   const [vesselTypeFilter, setVesselTypeFilter] = useState<string>("all");
   const [fuelTypeFilter, setFuelTypeFilter] = useState<string>("all");
   const [yearFilter, setYearFilter] = useState<string>("all");
+  const [intensityMin, setIntensityMin] = useState<string>("");
+  const [intensityMax, setIntensityMax] = useState<string>("");
+  const [sort, setSort] = useState<RouteSortField>("year");
+  const [order, setOrder] = useState<SortOrder>("asc");
+  const [expandedRouteId, setExpandedRouteId] = useState<string | null>(null);
+
+  const { data: facets } = useQuery<RouteFacets>({
+    queryKey: ["/api/routes/facets"],
+  });
 
-  const { data: routes, isLoading } = useQuery<Route[]>({
-    queryKey: ["/api/routes"],
+  // Filtering and sorting happen on the server; routes arrive a page at a time
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+  if (vesselTypeFilter !== "all") params.set("vesselType", vesselTypeFilter);
+  if (fuelTypeFilter !== "all") params.set("fuelType", fuelTypeFilter);
+  if (yearFilter !== "all") params.set("year", yearFilter);
+  if (intensityMin.trim()) params.set("intensityMin", intensityMin.trim());
+  if (intensityMax.trim()) params.set("intensityMax", intensityMax.trim());
+
+  const {
+    data,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/routes", params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/routes?${pageParams}`);
+      return (await res.json()) as Page<Route>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  const routes = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
   const setBaselineMutation = useMutation({
     mutationFn: async (routeId: string) => {
       return apiRequest("POST", `/api/routes/${routeId}/baseline`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/routes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/routes/comparison"] });
       toast({
         title: "Baseline Updated",
         description: "The baseline route has been set successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to set baseline. Please try again.",
+        description: describeApiError(error) || "Failed to set baseline. Please try again.",
         variant: "destructive",
       });
     },
   });
 
-  const filteredRoutes = routes?.filter((route) => {
-    if (vesselTypeFilter !== "all" && route.vesselType !== vesselTypeFilter) return false;
-    if (fuelTypeFilter !== "all" && route.fuelType !== fuelTypeFilter) return false;
-    if (yearFilter !== "all" && route.year.toString() !== yearFilter) return false;
-    return true;
-  });
-
-  const vesselTypes = Array.from(new Set(routes?.map((r) => r.vesselType) || []));
-  const fuelTypes = Array.from(new Set(routes?.map((r) => r.fuelType) || []));
-  const years = Array.from(new Set(routes?.map((r) => r.year.toString()) || []));
+  const vesselTypes = facets?.vesselTypes ?? [];
+  const fuelTypes = facets?.fuelTypes ?? [];
+  const years = facets?.years.map((year) => year.toString()) ?? [];
 
   return (
     <div className="space-y-6">
@@ -128,6 +251,60 @@ export default function RoutesTab() {
               </Select>
             </div>
           </div>
+
+          <div className="flex flex-wrap gap-4 mt-4">
+            <div className="flex-1 min-w-[200px]">
+              <label className="text-sm font-medium text-foreground mb-2 block">
+                GHG Intensity (gCO₂e/MJ)
+              </label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  placeholder="Min"
+                  value={intensityMin}
+                  onChange={(e) => setIntensityMin(e.target.value)}
+                  data-testid="input-intensity-min"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  placeholder="Max"
+                  value={intensityMax}
+                  onChange={(e) => setIntensityMax(e.target.value)}
+                  data-testid="input-intensity-max"
+                />
+              </div>
+            </div>
+
+            <div className="flex-1 min-w-[200px]">
+              <label className="text-sm font-medium text-foreground mb-2 block">
+                Sort By
+              </label>
+              <div className="flex items-center gap-2">
+                <Select value={sort} onValueChange={(value) => setSort(value as RouteSortField)}>
+                  <SelectTrigger data-testid="select-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SORT_LABELS) as RouteSortField[]).map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {SORT_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={order} onValueChange={(value) => setOrder(value as SortOrder)}>
+                  <SelectTrigger className="w-[140px]" data-testid="select-order">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="asc">Ascending</SelectItem>
+                    <SelectItem value="desc">Descending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -139,7 +316,11 @@ export default function RoutesTab() {
               <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-primary border-r-transparent"></div>
               <p className="text-sm text-muted-foreground mt-4">Loading routes...</p>
             </div>
-          ) : filteredRoutes && filteredRoutes.length > 0 ? (
+          ) : error ? (
+            <div className="p-12 text-center">
+              <p className="text-destructive">{describeApiError(error)}</p>
+            </div>
+          ) : routes.length > 0 ? (
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="border-b bg-muted/50">
@@ -156,6 +337,9 @@ export default function RoutesTab() {
                     <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
                       Year
                     </th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-foreground">
+                      Scope
+                    </th>
                     <th className="px-4 py-3 text-right text-sm font-medium text-foreground">
                       GHG Intensity
                       <span className="text-xs text-muted-foreground ml-1">(gCO₂e/MJ)</span>
@@ -178,53 +362,92 @@ export default function RoutesTab() {
                   </tr>
                 </thead>
                 <tbody className="divide-y">
-                  {filteredRoutes.map((route, index) => (
-                    <tr
-                      key={route.id}
-                      className="hover-elevate"
-                      data-testid={`row-route-${route.routeId}`}
-                    >
-                      <td className="px-4 py-3 text-sm font-mono text-foreground">
-                        <div className="flex items-center gap-2">
-                          {route.routeId}
-                          {route.isBaseline && (
-                            <Badge variant="secondary" className="text-xs">
-                              <Star className="w-3 h-3 mr-1 fill-current" />
-                              Baseline
-                            </Badge>
-                          )}
-                        </div>
-                      </td>
-                      <td className="px-4 py-3 text-sm text-foreground">{route.vesselType}</td>
-                      <td className="px-4 py-3 text-sm text-foreground">{route.fuelType}</td>
-                      <td className="px-4 py-3 text-sm text-foreground">{route.year}</td>
-                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
-                        {route.ghgIntensity.toFixed(2)}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
-                        {route.fuelConsumption.toLocaleString()}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
-                        {route.distance.toLocaleString()}
-                      </td>
-                      <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
-                        {route.totalEmissions.toLocaleString()}
-                      </td>
-                      <td className="px-4 py-3 text-center">
-                        <Button
-                          size="sm"
-                          variant={route.isBaseline ? "secondary" : "outline"}
-                          disabled={route.isBaseline || setBaselineMutation.isPending}
-                          onClick={() => setBaselineMutation.mutate(route.routeId)}
-                          data-testid={`button-set-baseline-${route.routeId}`}
-                        >
-                          {route.isBaseline ? "Is Baseline" : "Set Baseline"}
-                        </Button>
-                      </td>
-                    </tr>
+                  {routes.map((route) => (
+                    <Fragment key={route.id}>
+                      <tr
+                        className="hover-elevate"
+                        data-testid={`row-route-${route.routeId}`}
+                      >
+                        <td className="px-4 py-3 text-sm font-mono text-foreground">
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              aria-label="Toggle fuel breakdown"
+                              aria-expanded={expandedRouteId === route.routeId}
+                              onClick={() =>
+                                setExpandedRouteId(expandedRouteId === route.routeId ? null : route.routeId)
+                              }
+                              data-testid={`button-toggle-fuels-${route.routeId}`}
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              {expandedRouteId === route.routeId ? (
+                                <ChevronDown className="w-4 h-4" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4" />
+                              )}
+                            </button>
+                            {route.routeId}
+                            {route.isBaseline && (
+                              <Badge variant="secondary" className="text-xs">
+                                <Star className="w-3 h-3 mr-1 fill-current" />
+                                Baseline
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-foreground">{route.vesselType}</td>
+                        <td className="px-4 py-3 text-sm text-foreground">{route.fuelType}</td>
+                        <td className="px-4 py-3 text-sm text-foreground">{route.year}</td>
+                        <td className="px-4 py-3 text-sm text-foreground">
+                          {VOYAGE_SCOPE_LABELS[route.voyageScope]}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                          {route.ghgIntensity.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                          {route.fuelConsumption.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                          {route.distance.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-mono text-right text-foreground">
+                          {route.totalEmissions.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <Button
+                            size="sm"
+                            variant={route.isBaseline ? "secondary" : "outline"}
+                            disabled={route.isBaseline || setBaselineMutation.isPending}
+                            onClick={() => setBaselineMutation.mutate(route.routeId)}
+                            data-testid={`button-set-baseline-${route.routeId}`}
+                          >
+                            {route.isBaseline ? "Is Baseline" : "Set Baseline"}
+                          </Button>
+                        </td>
+                      </tr>
+                      {expandedRouteId === route.routeId && (
+                        <FuelBreakdownRow routeId={route.routeId} colSpan={10} />
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
+              <div className="flex items-center justify-between border-t px-4 py-3">
+                <span className="text-sm text-muted-foreground" data-testid="text-route-count">
+                  Showing {routes.length.toLocaleString()} of {total.toLocaleString()} routes
+                </span>
+                {hasNextPage && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isFetchingNextPage}
+                    onClick={() => fetchNextPage()}
+                    data-testid="button-load-more-routes"
+                  >
+                    {isFetchingNextPage ? "Loading..." : "Load More"}
+                  </Button>
+                )}
+              </div>
             </div>
           ) : (
             <div className="p-12 text-center">
@@ -1,9 +1,45 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ApiErrorCode, ApiErrorDetail, ApiErrorResponse } from "@shared/schema";
+
+// A failed API call, carrying the server's { code, message, details } body
+export class ApiRequestError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details: ApiErrorDetail[] = [],
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+// Message plus any field-level details, for toasts and inline errors
+export function describeApiError(error: Error): string {
+  if (!(error instanceof ApiRequestError)) return error.message;
+
+  const details = error.details
+    .filter(detail => detail.message !== error.message)
+    .map(detail => (detail.path ? `${detail.path}: ${detail.message}` : detail.message));
+  return [error.message, ...details].join("; ");
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const text = await res.text();
+    let body: Partial<ApiErrorResponse> = {};
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not an API error body, e.g. a proxy error page
+    }
+
+    throw new ApiRequestError(
+      res.status,
+      body.code ?? (res.status >= 500 ? "internal_error" : "invalid_request"),
+      body.message || text || res.statusText,
+      body.details ?? [],
+    );
   }
 }
 
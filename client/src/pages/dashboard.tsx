@@ -1,9 +1,11 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Ship, GitCompare, Building2, Users } from "lucide-react";
 import RoutesTab from "@/components/tabs/routes-tab";
 import CompareTab from "@/components/tabs/compare-tab";
 import BankingTab from "@/components/tabs/banking-tab";
 import PoolingTab from "@/components/tabs/pooling-tab";
+import type { TargetIntensityResponse } from "@shared/schema";
 
 type TabId = "routes" | "compare" | "banking" | "pooling";
 
@@ -22,6 +24,11 @@ const tabs: Tab[] = [
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabId>("routes");
+  const reportingYear = new Date().getFullYear();
+
+  const { data: target } = useQuery<TargetIntensityResponse>({
+    queryKey: [`/api/compliance/target?year=${reportingYear}`],
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -39,9 +46,9 @@ export default function Dashboard() {
             </div>
             <div className="flex items-center gap-4">
               <div className="text-right">
-                <div className="text-xs text-muted-foreground">Target Intensity (2025)</div>
-                <div className="text-sm font-mono font-semibold text-foreground">
-                  89.3368 gCO₂e/MJ
+                <div className="text-xs text-muted-foreground">Target Intensity ({reportingYear})</div>
+                <div className="text-sm font-mono font-semibold text-foreground" data-testid="text-target-intensity">
+                  {target ? `${target.targetIntensity.toFixed(4)} gCO₂e/MJ` : "—"}
                 </div>
               </div>
             </div>
@@ -1,11 +1,12 @@
-// drizzle.config.ts
-import type { Config } from 'drizzle-kit';
+// drizzle.config.ts - migrations are generated from shared/schema.ts into migrations/
+// and applied by scripts/migrate.ts (npm run db:migrate)
+import { defineConfig } from 'drizzle-kit';
 
-export default {
+export default defineConfig({
   schema: './shared/schema.ts',
-  out: './drizzle',
-  driver: 'pg',
+  out: './migrations',
+  dialect: 'postgresql',
   dbCredentials: {
-    connectionString: process.env.DATABASE_URL,
+    url: process.env.DATABASE_URL!,
   },
-} satisfies Config;
\ No newline at end of file
+});
@@ -0,0 +1,172 @@
+CREATE TABLE "bank_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"year" integer NOT NULL,
+	"entry_type" varchar(20) DEFAULT 'bank' NOT NULL,
+	"origin_year" integer,
+	"amount_gco2eq" bigint NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "bunker_delivery_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(7) NOT NULL,
+	"bdn_number" varchar(50) NOT NULL,
+	"supplier" varchar(200) NOT NULL,
+	"port_code" varchar(5) NOT NULL,
+	"delivery_date" date NOT NULL,
+	"fuel_type" varchar(50) NOT NULL,
+	"fuel_grade" varchar(50) NOT NULL,
+	"mass_tonnes" real NOT NULL,
+	"density_kg_m3" real NOT NULL,
+	"sulphur_content" real NOT NULL,
+	"sustainability_certificate" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bunker_delivery_notes_ship_bdn_unique" UNIQUE("ship_id","bdn_number")
+);
+--> statement-breakpoint
+CREATE TABLE "companies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"imo_company_number" varchar(7),
+	"name" varchar(200) NOT NULL,
+	"country" varchar(2),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "companies_imo_company_number_unique" UNIQUE("imo_company_number")
+);
+--> statement-breakpoint
+CREATE TABLE "compliance_ledger" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"year" integer NOT NULL,
+	"entry_type" varchar(20) NOT NULL,
+	"amount_gco2eq" bigint NOT NULL,
+	"cb_before" bigint NOT NULL,
+	"cb_after" bigint NOT NULL,
+	"actor" varchar(100) NOT NULL,
+	"reason" text NOT NULL,
+	"reference" varchar(100),
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pool_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_id" integer NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"cb_before" bigint NOT NULL,
+	"cb_after" bigint NOT NULL,
+	CONSTRAINT "pool_members_pool_ship_unique" UNIQUE("pool_id","ship_id")
+);
+--> statement-breakpoint
+CREATE TABLE "pools" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"year" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "port_calls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"year" integer NOT NULL,
+	"port_code" varchar(10) NOT NULL,
+	"is_ten_t_port" boolean DEFAULT true NOT NULL,
+	"berth_hours" real NOT NULL,
+	"ops_used" boolean DEFAULT false NOT NULL,
+	"exemption_reason" varchar(50),
+	"electrical_demand_kw" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "route_fuel_lines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"route_id" integer NOT NULL,
+	"fuel_type" varchar(50) NOT NULL,
+	"mass_tonnes" real NOT NULL,
+	"consumer" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "routes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"route_id" varchar(50) NOT NULL,
+	"ship_id" varchar(7),
+	"vessel_type" varchar(100) NOT NULL,
+	"fuel_type" varchar(50) NOT NULL,
+	"year" integer NOT NULL,
+	"ghg_intensity" real NOT NULL,
+	"fuel_consumption" real NOT NULL,
+	"distance" real NOT NULL,
+	"total_emissions" real NOT NULL,
+	"voyage_scope" varchar(30) DEFAULT 'intra_eu' NOT NULL,
+	"is_baseline" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "routes_route_id_unique" UNIQUE("route_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ship_company_assignments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(7) NOT NULL,
+	"company_id" integer NOT NULL,
+	"effective_from" date NOT NULL,
+	"effective_to" date,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ship_company_assignments_dates_check" CHECK ("ship_company_assignments"."effective_to" IS NULL OR "ship_company_assignments"."effective_to" > "ship_company_assignments"."effective_from")
+);
+--> statement-breakpoint
+CREATE TABLE "ship_compliance" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"year" integer NOT NULL,
+	"cb_gco2eq" bigint NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ship_compliance_ship_year_unique" UNIQUE("ship_id","year")
+);
+--> statement-breakpoint
+CREATE TABLE "ship_engines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(50) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"engine_type" varchar(30) NOT NULL,
+	"power_kw" real,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ship_engines_ship_name_unique" UNIQUE("ship_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "ships" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"imo_number" varchar(7) NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"vessel_type" varchar(100) NOT NULL,
+	"gross_tonnage" real NOT NULL,
+	"flag" varchar(2) NOT NULL,
+	"ice_class" varchar(10),
+	"managing_company" varchar(200),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ships_imo_number_unique" UNIQUE("imo_number")
+);
+--> statement-breakpoint
+CREATE TABLE "voyages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ship_id" varchar(7) NOT NULL,
+	"route_id" integer,
+	"departure_port" varchar(5) NOT NULL,
+	"arrival_port" varchar(5) NOT NULL,
+	"departure_at" timestamp NOT NULL,
+	"arrival_at" timestamp NOT NULL,
+	"voyage_scope" varchar(30),
+	"year" integer NOT NULL,
+	"fuel_consumption" real NOT NULL,
+	"distance" real NOT NULL,
+	"total_emissions" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "voyages_timing_check" CHECK ("voyages"."arrival_at" > "voyages"."departure_at")
+);
+--> statement-breakpoint
+ALTER TABLE "bunker_delivery_notes" ADD CONSTRAINT "bunker_delivery_notes_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pool_members" ADD CONSTRAINT "pool_members_pool_id_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "public"."pools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "route_fuel_lines" ADD CONSTRAINT "route_fuel_lines_route_id_routes_id_fk" FOREIGN KEY ("route_id") REFERENCES "public"."routes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "routes" ADD CONSTRAINT "routes_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ship_company_assignments" ADD CONSTRAINT "ship_company_assignments_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ship_company_assignments" ADD CONSTRAINT "ship_company_assignments_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "voyages" ADD CONSTRAINT "voyages_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "voyages" ADD CONSTRAINT "voyages_route_id_routes_id_fk" FOREIGN KEY ("route_id") REFERENCES "public"."routes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "compliance_ledger_ship_year_idx" ON "compliance_ledger" USING btree ("ship_id","year","id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- The compliance ledger is append-only: updates and deletes are rejected
+CREATE OR REPLACE FUNCTION reject_ledger_mutation() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'compliance_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER compliance_ledger_append_only
+  BEFORE UPDATE OR DELETE ON compliance_ledger
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_mutation();
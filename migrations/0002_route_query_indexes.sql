@@ -0,0 +1,4 @@
+CREATE INDEX "routes_year_idx" ON "routes" USING btree ("year","id");--> statement-breakpoint
+CREATE INDEX "routes_ghg_intensity_idx" ON "routes" USING btree ("ghg_intensity","id");--> statement-breakpoint
+CREATE INDEX "routes_vessel_type_idx" ON "routes" USING btree ("vessel_type");--> statement-breakpoint
+CREATE INDEX "routes_fuel_type_idx" ON "routes" USING btree ("fuel_type");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "port_calls" ADD CONSTRAINT "port_calls_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
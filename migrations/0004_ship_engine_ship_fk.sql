@@ -0,0 +1 @@
+ALTER TABLE "ship_engines" ADD CONSTRAINT "ship_engines_ship_id_ships_imo_number_fk" FOREIGN KEY ("ship_id") REFERENCES "public"."ships"("imo_number") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
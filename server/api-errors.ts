@@ -0,0 +1,79 @@
+// API error responses - every failure leaves the server as { code, message, details }
+// Request schemas reject malformed input (400), storage errors map to 404/422 and
+// anything unexpected is logged and reported as a generic 500
+import type { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
+import type { ApiErrorCode, ApiErrorDetail, ApiErrorResponse } from "@shared/schema";
+import { NotFoundError, ValidationError } from "./storage-errors";
+import { UnknownFuelTypeError } from "./domain/fuel-catalogue";
+import { InvalidLocodeError } from "./domain/port-reference";
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details: ApiErrorDetail[] = []
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+function zodDetails(error: ZodError): ApiErrorDetail[] {
+  return error.errors.map(issue => ({
+    ...(issue.path.length > 0 ? { path: issue.path.join(".") } : {}),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Translate a thrown error into an API error
+ * Unrecognised errors become null and are reported as internal errors
+ */
+export function toApiError(error: unknown): ApiError | null {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof ZodError) {
+    const details = zodDetails(error);
+    return new ApiError(400, "invalid_request", details[0]?.message ?? "Invalid request", details);
+  }
+
+  // express.json() rejects unparseable bodies before any handler runs
+  const parserError = error as { type?: string; message?: string };
+  if (parserError?.type === "entity.parse.failed") {
+    return new ApiError(400, "invalid_request", "Request body is not valid JSON");
+  }
+
+  if (error instanceof NotFoundError) {
+    return new ApiError(404, "not_found", error.message);
+  }
+
+  if (error instanceof ValidationError) {
+    return new ApiError(422, "validation_failed", error.message, error.errors.map(message => ({ message })));
+  }
+
+  if (error instanceof UnknownFuelTypeError || error instanceof InvalidLocodeError) {
+    return new ApiError(422, "validation_failed", error.message);
+  }
+
+  return null;
+}
+
+// Registered after every route; handlers pass failures on with next(error)
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(error);
+
+  let apiError = toApiError(error);
+  if (!apiError) {
+    console.error(`❌ ${req.method} ${req.path} failed:`, error);
+    apiError = new ApiError(500, "internal_error", "Internal server error");
+  }
+
+  const body: ApiErrorResponse = {
+    code: apiError.code,
+    message: apiError.message,
+    details: apiError.details,
+  };
+  res.status(apiError.status).json(body);
+}
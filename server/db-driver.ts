@@ -0,0 +1,124 @@
+// db-driver.ts - Postgres driver selection
+// Neon serverless (WebSockets), node-postgres for self-hosted Postgres, or
+// embedded PGlite; every driver yields the same Drizzle database type
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import pg from 'pg';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+export const DATABASE_DRIVERS = ["neon", "pg", "pglite"] as const;
+
+export type DatabaseDriverName = typeof DATABASE_DRIVERS[number];
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export interface DatabaseConfig {
+  driver: DatabaseDriverName;
+  url?: string;
+  pool: {
+    max: number; // Connections per process
+    idleTimeoutMillis: number; // Close connections idle this long
+    connectionTimeoutMillis: number; // Fail a checkout that waits this long
+  };
+  pgliteDataDir?: string; // PGlite only; in-memory when unset
+}
+
+export interface DatabaseDriver {
+  name: DatabaseDriverName;
+  db: Database;
+  inMemory: boolean; // Lost when the process exits, so no other process can migrate it
+  executeSQL(query: string): Promise<unknown>;
+  close(): Promise<void>;
+}
+
+// API server defaults: enough connections for concurrent requests without
+// exhausting a small Postgres, and idle connections released within a minute
+export const DEFAULT_POOL_SETTINGS: DatabaseConfig["pool"] = {
+  max: 10,
+  idleTimeoutMillis: 30_000,
+  connectionTimeoutMillis: 5_000,
+};
+
+function readPositiveInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the database configuration from the environment
+ * DATABASE_DRIVER: neon (default) | pg | pglite
+ * DATABASE_URL: required for neon and pg
+ * DATABASE_POOL_MAX, DATABASE_IDLE_TIMEOUT_MS, DATABASE_CONNECT_TIMEOUT_MS: pool tuning
+ * PGLITE_DATA_DIR: directory for a persistent PGlite database
+ */
+export function resolveDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  const driver = (env.DATABASE_DRIVER || "neon") as DatabaseDriverName;
+  if (!DATABASE_DRIVERS.includes(driver)) {
+    throw new Error(`DATABASE_DRIVER must be one of ${DATABASE_DRIVERS.join(", ")}, got "${driver}"`);
+  }
+
+  return {
+    driver,
+    url: env.DATABASE_URL || undefined,
+    pool: {
+      max: readPositiveInt(env, "DATABASE_POOL_MAX", DEFAULT_POOL_SETTINGS.max),
+      idleTimeoutMillis: readPositiveInt(env, "DATABASE_IDLE_TIMEOUT_MS", DEFAULT_POOL_SETTINGS.idleTimeoutMillis),
+      connectionTimeoutMillis: readPositiveInt(env, "DATABASE_CONNECT_TIMEOUT_MS", DEFAULT_POOL_SETTINGS.connectionTimeoutMillis),
+    },
+    pgliteDataDir: env.PGLITE_DATA_DIR || undefined,
+  };
+}
+
+/**
+ * Build the configured driver and its Drizzle database
+ * Pools connect lazily, so nothing is opened until the first query
+ */
+export function createDatabaseDriver(config: DatabaseConfig): DatabaseDriver {
+  switch (config.driver) {
+    case "neon": {
+      neonConfig.webSocketConstructor = ws;
+      const pool = new NeonPool({ connectionString: config.url, ...config.pool });
+      return {
+        name: "neon",
+        db: drizzleNeon(pool, { schema }),
+        inMemory: false,
+        executeSQL: (query) => pool.query(query),
+        close: () => pool.end(),
+      };
+    }
+
+    case "pg": {
+      const pool = new pg.Pool({ connectionString: config.url, ...config.pool });
+      return {
+        name: "pg",
+        db: drizzleNodePg(pool, { schema }),
+        inMemory: false,
+        executeSQL: (query) => pool.query(query),
+        close: () => pool.end(),
+      };
+    }
+
+    case "pglite": {
+      // A single embedded connection; pool settings do not apply
+      const client = new PGlite(config.pgliteDataDir);
+      return {
+        name: "pglite",
+        db: drizzlePglite(client, { schema }),
+        inMemory: config.pgliteDataDir === undefined,
+        executeSQL: (query) => client.exec(query),
+        close: () => client.close(),
+      };
+    }
+  }
+}
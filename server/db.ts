@@ -1,35 +1,33 @@
-// db.ts - Use Neon serverless driver for migrations
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
-import ws from "ws";
-import * as schema from "@shared/schema";
+// db.ts - Drizzle database built from the configured Postgres driver
+import { createDatabaseDriver, resolveDatabaseConfig } from "./db-driver";
 
 import dotenv from "dotenv";
 dotenv.config();
 
-neonConfig.webSocketConstructor = ws;
+const config = resolveDatabaseConfig();
 
-if (!process.env.DATABASE_URL) {
+// PGlite is embedded, and the in-memory storage adapter never connects
+if (!config.url && config.driver !== "pglite" && process.env.STORAGE_ADAPTER !== "memory") {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? Set STORAGE_ADAPTER=memory, or DATABASE_DRIVER=pglite with PGLITE_DATA_DIR to keep the data between runs, to run without one.",
   );
 }
 
-// Use Pool for migrations and complex operations
-export const pool = new Pool({ 
-  connectionString: process.env.DATABASE_URL,
-  max: 1, // Use single connection for migrations
-});
+const driver = createDatabaseDriver(config);
 
-export const db = drizzle(pool, { schema });
+export const databaseDriver = driver.name;
+
+// In-memory PGlite starts empty in every process; the server migrates it at startup
+export const databaseInMemory = driver.inMemory;
+
+export const db = driver.db;
 
 // Helper function for raw SQL execution
 export async function executeSQL(query: string) {
-  const client = await pool.connect();
-  try {
-    const result = await client.query(query);
-    return result;
-  } finally {
-    client.release();
-  }
-}
\ No newline at end of file
+  return driver.executeSQL(query);
+}
+
+// Release pooled connections, e.g. at the end of a script
+export async function closeDatabase() {
+  await driver.close();
+}
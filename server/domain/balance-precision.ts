@@ -0,0 +1,37 @@
+// Domain Service: Balance Precision (exact gCO2eq arithmetic)
+// Pure business logic - no framework dependencies
+
+import DecimalLight, { type Numeric } from "decimal.js-light";
+import type { BalanceRounding } from "@shared/schema";
+
+/**
+ * Decimal type for balance arithmetic
+ * 40 significant digits hold intensity × energy products without loss
+ */
+export const Decimal = DecimalLight.clone({ precision: 40, rounding: DecimalLight.ROUND_HALF_EVEN });
+export type Decimal = DecimalLight;
+
+/**
+ * Rounding rule for every stored or returned balance
+ * Exact decimal arithmetic throughout, rounded once to whole grams, half to even,
+ * so rounding of repeated transfers carries no systematic bias
+ */
+export const BALANCE_ROUNDING: BalanceRounding = {
+  unit: "gCO2eq",
+  decimals: 0,
+  mode: "half_even",
+};
+
+/**
+ * Round an exact value to a balance in whole grams
+ */
+export function toGrams(value: Numeric): number {
+  return new Decimal(value).toDecimalPlaces(BALANCE_ROUNDING.decimals, Decimal.ROUND_HALF_EVEN).toNumber();
+}
+
+/**
+ * Exact sum of balances, rounded to whole grams
+ */
+export function sumGrams(values: Numeric[]): number {
+  return toGrams(values.reduce<Decimal>((sum, value) => sum.plus(value), new Decimal(0)));
+}
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allocateBankedSurplus,
+  calculateBorrowingLimit,
+  calculateBorrowingRepayment,
+  validateBorrowing
+} from "./banking-service";
+import { getTargetIntensity } from "./compliance-service";
+
+describe("calculateBorrowingRepayment", () => {
+  it("charges 1.1 times the amount borrowed", () => {
+    assert.equal(calculateBorrowingRepayment(2_000_000), 2_200_000);
+  });
+
+  it("charges nothing when nothing was borrowed", () => {
+    assert.equal(calculateBorrowingRepayment(0), 0);
+  });
+
+  it("rounds to whole grams, half to even", () => {
+    assert.equal(calculateBorrowingRepayment(5), 6); // 5.5
+    assert.equal(calculateBorrowingRepayment(15), 16); // 16.5
+  });
+});
+
+describe("calculateBorrowingLimit", () => {
+  it("is 2% of the target intensity times the energy in scope", () => {
+    assert.equal(getTargetIntensity(2025), 89.3368);
+    assert.equal(calculateBorrowingLimit(2025, 1_000_000), 1_786_736);
+  });
+
+  it("follows the target for the period", () => {
+    assert.ok(calculateBorrowingLimit(2030, 1_000_000) < calculateBorrowingLimit(2025, 1_000_000));
+  });
+});
+
+describe("validateBorrowing", () => {
+  const request = { cb: -5_000_000, amount: 1_000_000, limit: 1_786_736, borrowedPreviousYear: 0 };
+
+  it("accepts an amount within the deficit and the limit", () => {
+    assert.deepEqual(validateBorrowing(request), []);
+  });
+
+  it("only covers a deficit", () => {
+    assert.deepEqual(validateBorrowing({ ...request, cb: 0 }), ["Borrowing is only available when CB < 0"]);
+  });
+
+  it("refuses more than the deficit", () => {
+    assert.deepEqual(validateBorrowing({ ...request, amount: 5_000_001, limit: 10_000_000 }), [
+      "Amount exceeds current deficit",
+    ]);
+  });
+
+  it("refuses more than the 2% limit", () => {
+    assert.deepEqual(validateBorrowing({ ...request, amount: 1_786_737 }), [
+      "Amount exceeds borrowing limit of 1786736 gCO2eq",
+    ]);
+  });
+
+  it("refuses borrowing in two consecutive periods", () => {
+    assert.deepEqual(validateBorrowing({ ...request, borrowedPreviousYear: 1 }), [
+      "Borrowing is not allowed in two consecutive reporting periods",
+    ]);
+  });
+});
+
+describe("allocateBankedSurplus", () => {
+  const balances = [
+    { originYear: 2025, banked: 4_000_000, applied: 0, available: 4_000_000 },
+    { originYear: 2024, banked: 3_000_000, applied: 1_000_000, available: 2_000_000 },
+  ];
+
+  it("draws from the oldest banked surplus first", () => {
+    assert.deepEqual(allocateBankedSurplus(balances, 3_000_000, 2026), {
+      draws: [{ originYear: 2024, amount: 2_000_000 }, { originYear: 2025, amount: 1_000_000 }],
+      errors: [],
+    });
+  });
+
+  it("only draws surplus banked in earlier periods", () => {
+    assert.deepEqual(allocateBankedSurplus(balances, 3_000_000, 2025), {
+      draws: [],
+      errors: ["Amount exceeds available banked surplus"],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// Domain Service: Banking and Borrowing (Article 20)
+// Pure business logic - no framework dependencies
+
+import type { BankBalance } from "@shared/schema";
+import { getTargetIntensity } from "./compliance-service";
+import { Decimal, toGrams } from "./balance-precision";
+
+// Domain constants - FuelEU Maritime Regulation
+export const BORROWING_LIMIT_SHARE = 0.02; // 2% of limit × energy
+export const BORROWING_AGGRAVATION_FACTOR = 1.1; // repaid with 10% aggravation
+
+/**
+ * Maximum advance compliance surplus that can be borrowed for a period
+ * Limit = 2% × GHGIE_target(year) × Energy in scope
+ */
+export function calculateBorrowingLimit(year: number, energyInScope: number): number {
+  return toGrams(new Decimal(BORROWING_LIMIT_SHARE).times(getTargetIntensity(year)).times(energyInScope));
+}
+
+/**
+ * Amount charged against the following period's CB for a borrowing
+ */
+export function calculateBorrowingRepayment(borrowed: number): number {
+  return toGrams(new Decimal(borrowed).times(BORROWING_AGGRAVATION_FACTOR));
+}
+
+/**
+ * Validate a borrowing request per Article 20(2)
+ * Rules:
+ * 1. Only a deficit can be covered by borrowing
+ * 2. Amount cannot exceed the deficit or the 2% limit
+ * 3. No borrowing in two consecutive periods
+ */
+export function validateBorrowing(params: {
+  cb: number;
+  amount: number;
+  limit: number;
+  borrowedPreviousYear: number;
+}): string[] {
+  const { cb, amount, limit, borrowedPreviousYear } = params;
+  const errors: string[] = [];
+
+  if (cb >= 0) {
+    errors.push("Borrowing is only available when CB < 0");
+  } else if (amount > Math.abs(cb)) {
+    errors.push("Amount exceeds current deficit");
+  }
+
+  if (amount > limit) {
+    errors.push(`Amount exceeds borrowing limit of ${limit} gCO2eq`);
+  }
+
+  if (borrowedPreviousYear > 0) {
+    errors.push("Borrowing is not allowed in two consecutive reporting periods");
+  }
+
+  return errors;
+}
+
+/**
+ * Draw banked surplus for a period from earlier origin years
+ * Oldest origin years are used first; surplus banked in the same or a later
+ * year cannot be applied. Returns one draw per origin year for lineage.
+ */
+export function allocateBankedSurplus(
+  balances: BankBalance[],
+  amount: number,
+  year: number
+): { draws: Array<{ originYear: number; amount: number }>; errors: string[] } {
+  const eligible = balances
+    .filter(b => b.originYear < year && b.available > 0)
+    .sort((a, b) => a.originYear - b.originYear);
+
+  const available = eligible.reduce((sum, b) => sum + b.available, 0);
+  if (amount > available) {
+    return { draws: [], errors: ["Amount exceeds available banked surplus"] };
+  }
+
+  const draws: Array<{ originYear: number; amount: number }> = [];
+  let remaining = amount;
+  for (const balance of eligible) {
+    if (remaining <= 0) break;
+    const draw = Math.min(balance.available, remaining);
+    draws.push({ originYear: balance.originYear, amount: draw });
+    remaining -= draw;
+  }
+
+  return { draws, errors: [] };
+}
@@ -0,0 +1,182 @@
+// Domain Service: Bunker Delivery Notes (ingestion and reconciliation)
+// Pure business logic - no framework dependencies
+
+import type {
+  BunkerReconciliation,
+  BunkerReconciliationLine,
+  InsertBunkerDeliveryNote
+} from "@shared/schema";
+
+export const DEFAULT_BDN_VARIANCE_THRESHOLD = 0.05; // 5% of bunkered mass
+export const MAX_SULPHUR_CONTENT = 3.5; // % m/m, MARPOL Annex VI global cap
+export const BDN_DENSITY_RANGE = { min: 600, max: 1100 }; // kg/m³ at 15 °C
+
+const NUMERIC_FIELDS = ["massTonnes", "densityKgM3", "sulphurContent"] as const;
+
+// CSV headers are matched case-insensitively, ignoring spaces, dashes and underscores
+const CSV_COLUMNS: Record<string, keyof InsertBunkerDeliveryNote> = {
+  shipid: "shipId",
+  imonumber: "shipId",
+  bdnnumber: "bdnNumber",
+  supplier: "supplier",
+  portcode: "portCode",
+  port: "portCode",
+  deliverydate: "deliveryDate",
+  date: "deliveryDate",
+  fueltype: "fuelType",
+  fuelgrade: "fuelGrade",
+  grade: "fuelGrade",
+  masstonnes: "massTonnes",
+  mass: "massTonnes",
+  densitykgm3: "densityKgM3",
+  density: "densityKgM3",
+  sulphurcontent: "sulphurContent",
+  sulphur: "sulphurContent",
+  sustainabilitycertificate: "sustainabilityCertificate",
+  certificate: "sustainabilityCertificate",
+};
+
+export interface FuelMass {
+  fuelType: string;
+  massTonnes: number;
+}
+
+/**
+ * Split one CSV line into fields (RFC 4180 quoting)
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+/**
+ * Parse a BDN CSV export into records keyed by BDN field name
+ * Numeric columns are converted; empty cells are left out
+ */
+export function parseBdnCsv(content: string): { records: Record<string, unknown>[]; errors: string[] } {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) return { records: [], errors: ["CSV is empty"] };
+
+  const headers = splitCsvLine(lines[0]).map(header => CSV_COLUMNS[header.toLowerCase().replace(/[\s_-]/g, "")]);
+  const errors: string[] = [];
+  headers.forEach((field, i) => {
+    if (!field) errors.push(`Unknown column "${splitCsvLine(lines[0])[i]}"`);
+  });
+  if (errors.length > 0) return { records: [], errors };
+
+  const records = lines.slice(1).map((line, row) => {
+    const cells = splitCsvLine(line);
+    if (cells.length !== headers.length) {
+      errors.push(`Row ${row + 1}: expected ${headers.length} columns, got ${cells.length}`);
+    }
+
+    const record: Record<string, unknown> = {};
+    headers.forEach((field, i) => {
+      const cell = cells[i];
+      if (cell === undefined || cell === "") return;
+      record[field!] = (NUMERIC_FIELDS as readonly string[]).includes(field!) ? Number(cell) : cell;
+    });
+    return record;
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Validate BDN quantities and dates
+ */
+export function validateBdn(bdn: InsertBunkerDeliveryNote): string[] {
+  const errors: string[] = [];
+  const label = `BDN ${bdn.bdnNumber}`;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(bdn.deliveryDate) || isNaN(Date.parse(bdn.deliveryDate))) {
+    errors.push(`${label}: deliveryDate must be YYYY-MM-DD`);
+  }
+  if (!(bdn.massTonnes > 0)) errors.push(`${label}: massTonnes must be positive`);
+  if (!(bdn.densityKgM3 >= BDN_DENSITY_RANGE.min && bdn.densityKgM3 <= BDN_DENSITY_RANGE.max)) {
+    errors.push(`${label}: densityKgM3 must be between ${BDN_DENSITY_RANGE.min} and ${BDN_DENSITY_RANGE.max}`);
+  }
+  if (!(bdn.sulphurContent >= 0 && bdn.sulphurContent <= MAX_SULPHUR_CONTENT)) {
+    errors.push(`${label}: sulphurContent must be between 0 and ${MAX_SULPHUR_CONTENT} % m/m`);
+  }
+
+  return errors;
+}
+
+/**
+ * Compare bunkered and reported mass
+ * Variance = reported − bunkered, relative to bunkered mass;
+ * reported fuel with nothing bunkered is always flagged
+ */
+function compareMass(bunkeredTonnes: number, reportedTonnes: number, threshold: number) {
+  const varianceTonnes = reportedTonnes - bunkeredTonnes;
+  const variancePct = bunkeredTonnes > 0 ? varianceTonnes / bunkeredTonnes : null;
+  const flagged = variancePct === null
+    ? reportedTonnes > 0
+    : Math.abs(variancePct) > threshold;
+
+  return { bunkeredTonnes, reportedTonnes, varianceTonnes, variancePct, flagged };
+}
+
+const sumByFuel = (entries: FuelMass[]) => {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.fuelType, (totals.get(entry.fuelType) ?? 0) + entry.massTonnes);
+  }
+  return totals;
+};
+
+/**
+ * Reconcile a ship's bunkered fuel with the consumption reported on its routes
+ * for one reporting period. Changes in remaining-on-board stock are not modelled,
+ * so the threshold should allow for them
+ */
+export function reconcileBunkers(
+  shipId: string,
+  year: number,
+  bunkered: FuelMass[],
+  reported: FuelMass[],
+  threshold: number = DEFAULT_BDN_VARIANCE_THRESHOLD
+): BunkerReconciliation {
+  const bunkeredByFuel = sumByFuel(bunkered);
+  const reportedByFuel = sumByFuel(reported);
+  const fuelTypes = Array.from(new Set(Array.from(bunkeredByFuel.keys()).concat(Array.from(reportedByFuel.keys())))).sort();
+
+  const fuels: BunkerReconciliationLine[] = fuelTypes.map(fuelType => ({
+    fuelType,
+    ...compareMass(bunkeredByFuel.get(fuelType) ?? 0, reportedByFuel.get(fuelType) ?? 0, threshold),
+  }));
+
+  const total = compareMass(
+    fuels.reduce((sum, f) => sum + f.bunkeredTonnes, 0),
+    fuels.reduce((sum, f) => sum + f.reportedTonnes, 0),
+    threshold
+  );
+
+  return { shipId, year, ...total, fuels };
+}
@@ -1,24 +1,208 @@
 // Domain Service: Compliance Balance Calculations
 // Pure business logic - no framework dependencies
 
-import type { Route } from "@shared/schema";
+import type { Route, RouteFuelLine, ShipEngine, VoyageScope } from "@shared/schema";
+import { calculateFuelEnergy, type FuelCatalogue } from "./fuel-catalogue";
+import { calculateFuelLinesIntensity } from "./intensity-service";
+import { applyRfnboReward, assessRfnbo, type RfnboAssessment } from "./rfnbo-service";
+import { Decimal, sumGrams, toGrams } from "./balance-precision";
 
 // Domain constants - FuelEU Maritime Regulation
-export const TARGET_INTENSITY_2025 = 89.3368; // gCO2e/MJ - 2% below 91.16
-export const ENERGY_CONVERSION_FACTOR = 41000; // MJ per tonne of fuel
+export const REFERENCE_INTENSITY = 91.16; // gCO2e/MJ - 2020 fleet reference value
+
+/**
+ * Reduction schedule relative to the reference value (Article 4(2)).
+ * Each entry applies from its year until the next entry takes over.
+ */
+export const TARGET_REDUCTION_SCHEDULE: ReadonlyArray<{ fromYear: number; reduction: number }> = [
+  { fromYear: 2025, reduction: 0.02 },
+  { fromYear: 2030, reduction: 0.06 },
+  { fromYear: 2035, reduction: 0.145 },
+  { fromYear: 2040, reduction: 0.31 },
+  { fromYear: 2045, reduction: 0.62 },
+  { fromYear: 2050, reduction: 0.8 },
+];
+
+/**
+ * Share of energy counted per voyage scope (Article 2(1))
+ * Intra-EU voyages and EU at-berth: 100%, voyages to/from third countries: 50%
+ */
+export const VOYAGE_SCOPE_FACTORS: Record<VoyageScope, number> = {
+  intra_eu: 1,
+  eu_to_third_country: 0.5,
+  third_country_to_eu: 0.5,
+  at_berth: 1,
+};
+
+/**
+ * Reduction factor applicable to a reporting period.
+ * Periods before 2025 predate the regulation and carry no reduction.
+ */
+export function getTargetReduction(year: number): number {
+  let reduction = 0;
+  for (const step of TARGET_REDUCTION_SCHEDULE) {
+    if (year >= step.fromYear) reduction = step.reduction;
+  }
+  return reduction;
+}
+
+/**
+ * GHG intensity limit for a reporting period
+ * Target = Reference × (1 − reduction)
+ */
+export function getTargetIntensity(year: number): number {
+  return new Decimal(REFERENCE_INTENSITY).times(new Decimal(1).minus(getTargetReduction(year))).toNumber();
+}
+
+/**
+ * Energy consumed for a fuel mass, using the fuel's LCV from the catalogue
+ * Throws UnknownFuelTypeError for fuels the catalogue does not know
+ */
+export function calculateEnergyConsumed(
+  catalogue: FuelCatalogue,
+  fuelType: string,
+  fuelConsumption: number
+): number {
+  return calculateFuelEnergy(catalogue.get(fuelType), fuelConsumption); // MJ
+}
+
+/**
+ * Apply the geographical scope factor to the energy consumed
+ */
+export function applyScopeFactor(energy: number, voyageScope: VoyageScope): number {
+  return energy * VOYAGE_SCOPE_FACTORS[voyageScope];
+}
 
 /**
  * Calculate compliance balance using FuelEU formula
- * CB = (Target - Actual) × Energy in scope
+ * CB = (Target(year) - Actual) × Energy in scope
  * Positive CB = Surplus, Negative CB = Deficit
+ * Evaluated exactly, then rounded half to even to whole gCO2eq
  */
 export function calculateComplianceBalance(
   ghgIntensity: number,
-  fuelConsumption: number
+  energyInScope: number,
+  year: number
 ): number {
-  const energyInScope = fuelConsumption * ENERGY_CONVERSION_FACTOR; // MJ
-  const cb = (TARGET_INTENSITY_2025 - ghgIntensity) * energyInScope; // gCO2eq
-  return cb;
+  const cb = new Decimal(getTargetIntensity(year)).minus(ghgIntensity).times(energyInScope); // gCO2eq
+  return toGrams(cb);
+}
+
+export interface RouteComplianceDetails {
+  cb: number; // whole gCO2eq
+  energyInScope: number; // MJ
+  ghgIntensity: number; // gCO2e/MJ, RFNBO reward applied
+  rfnbo: RfnboAssessment & { rewardCb: number };
+}
+
+/**
+ * Calculate compliance balance and its line items for a route
+ * When fuel lines are recorded, energy and intensity aggregate across them;
+ * otherwise the route's single fuelType/fuelConsumption is used.
+ * Energy is scaled by the route's voyage scope before the balance is taken,
+ * and RFNBO energy is rewarded in the intensity denominator (2025-2033).
+ * LNG lines use the methane slip of the registered engine that burned them.
+ */
+export function calculateRouteCompliance(
+  route: Route,
+  catalogue: FuelCatalogue,
+  fuelLines: RouteFuelLine[] = [],
+  engines: ShipEngine[] = []
+): RouteComplianceDetails {
+  let energy: number;
+  let rfnboEnergy: number;
+  let intensity: number;
+
+  if (fuelLines.length > 0) {
+    const breakdown = calculateFuelLinesIntensity(catalogue, fuelLines, engines);
+    energy = breakdown.energyMJ;
+    rfnboEnergy = breakdown.rfnboEnergyMJ;
+    intensity = breakdown.ghgIntensity;
+  } else {
+    energy = calculateEnergyConsumed(catalogue, route.fuelType, route.fuelConsumption);
+    rfnboEnergy = catalogue.get(route.fuelType).fuelClass === "rfnbo" ? energy : 0;
+    intensity = route.ghgIntensity;
+  }
+
+  const energyInScope = applyScopeFactor(energy, route.voyageScope);
+  const rfnboEnergyInScope = applyScopeFactor(rfnboEnergy, route.voyageScope);
+  const rewardedIntensity = applyRfnboReward(intensity, energyInScope, rfnboEnergyInScope, route.year);
+
+  const cb = calculateComplianceBalance(rewardedIntensity, energyInScope, route.year);
+  const unrewardedCb = calculateComplianceBalance(intensity, energyInScope, route.year);
+
+  return {
+    cb,
+    energyInScope,
+    ghgIntensity: rewardedIntensity,
+    rfnbo: {
+      ...assessRfnbo(energyInScope, rfnboEnergyInScope, route.year),
+      rewardCb: cb - unrewardedCb,
+    },
+  };
+}
+
+/**
+ * Aggregate a ship's route results for one reporting period
+ * CB (exact sum of whole grams) and energy are summed; intensity is energy-weighted; the RFNBO
+ * sub-target is assessed on the ship's total energy
+ */
+export function aggregateShipCompliance(
+  routeDetails: RouteComplianceDetails[],
+  year: number
+): RouteComplianceDetails {
+  const energyInScope = routeDetails.reduce((sum, d) => sum + d.energyInScope, 0);
+  const rfnboEnergy = routeDetails.reduce((sum, d) => sum + d.rfnbo.energyMJ, 0);
+  const weightedIntensity = routeDetails.reduce((sum, d) => sum + d.ghgIntensity * d.energyInScope, 0);
+
+  return {
+    cb: sumGrams(routeDetails.map(d => d.cb)),
+    energyInScope,
+    ghgIntensity: energyInScope > 0 ? weightedIntensity / energyInScope : 0,
+    rfnbo: {
+      ...assessRfnbo(energyInScope, rfnboEnergy, year),
+      rewardCb: sumGrams(routeDetails.map(d => d.rfnbo.rewardCb)),
+    },
+  };
+}
+
+/**
+ * Calculate compliance balance for a route in its own reporting period
+ */
+export function calculateRouteComplianceBalance(
+  route: Route,
+  catalogue: FuelCatalogue,
+  fuelLines: RouteFuelLine[] = [],
+  engines: ShipEngine[] = []
+): number {
+  return calculateRouteCompliance(route, catalogue, fuelLines, engines).cb;
+}
+
+// Route fields a ship's CB is computed from, with the ship and period it counts towards
+export const ROUTE_EMISSION_FIELDS: ReadonlyArray<keyof Route> = [
+  "shipId",
+  "year",
+  "fuelType",
+  "ghgIntensity",
+  "fuelConsumption",
+  "distance",
+  "totalEmissions",
+  "voyageScope",
+];
+
+/**
+ * Ship periods whose CB a route change affects - both the old and the new ship and
+ * period when they differ, none when only descriptive fields changed
+ */
+export function affectedShipPeriods(before: Route, after: Route): Array<{ shipId: string; year: number }> {
+  if (ROUTE_EMISSION_FIELDS.every(field => before[field] === after[field])) return [];
+
+  const periods = [before, after]
+    .filter(route => route.shipId !== null)
+    .map(route => ({ shipId: route.shipId!, year: route.year }));
+  return periods.filter((period, index) =>
+    periods.findIndex(p => p.shipId === period.shipId && p.year === period.year) === index
+  );
 }
 
 /**
@@ -33,8 +217,8 @@ export function calculatePercentDiff(
 }
 
 /**
- * Check if a route is compliant with target intensity
+ * Check if a route is compliant with the target intensity of its reporting period
  */
-export function isCompliant(ghgIntensity: number): boolean {
-  return ghgIntensity <= TARGET_INTENSITY_2025;
+export function isCompliant(ghgIntensity: number, year: number): boolean {
+  return ghgIntensity <= getTargetIntensity(year);
 }
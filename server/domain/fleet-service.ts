@@ -0,0 +1,64 @@
+// Domain Service: Company Fleet Aggregation
+// Pure business logic - no framework dependencies
+
+import type { FleetYearSummary, ShipCompanyAssignment } from "@shared/schema";
+import { Decimal, sumGrams } from "./balance-precision";
+
+export interface ShipYearPosition {
+  shipId: string;
+  cb: number; // gCO2eq, recorded balance after banking, borrowing and pooling
+  banked: number; // gCO2eq
+  borrowed: number; // gCO2eq
+  penalty: number; // €
+}
+
+type AssignmentPeriod = Pick<ShipCompanyAssignment, "companyId" | "effectiveFrom" | "effectiveTo">;
+
+/**
+ * Check whether an assignment covers a calendar date (YYYY-MM-DD)
+ * effectiveFrom is inclusive, effectiveTo exclusive
+ */
+export function isAssignmentActive(assignment: AssignmentPeriod, onDate: string): boolean {
+  return assignment.effectiveFrom <= onDate &&
+    (assignment.effectiveTo === null || onDate < assignment.effectiveTo);
+}
+
+/**
+ * Check whether two assignment periods overlap
+ */
+export function assignmentsOverlap(a: AssignmentPeriod, b: AssignmentPeriod): boolean {
+  const aEndsAfterBStarts = a.effectiveTo === null || b.effectiveFrom < a.effectiveTo;
+  const bEndsAfterAStarts = b.effectiveTo === null || a.effectiveFrom < b.effectiveTo;
+  return aEndsAfterBStarts && bEndsAfterAStarts;
+}
+
+/**
+ * Company responsible for a ship's reporting period
+ * The whole period is attributed to the company managing the ship on
+ * 31 December, so a mid-year handover moves the year to the new manager
+ */
+export function findResponsibleCompany(
+  assignments: AssignmentPeriod[],
+  year: number
+): number | undefined {
+  const periodEnd = `${year}-12-31`;
+  return assignments.find(assignment => isAssignmentActive(assignment, periodEnd))?.companyId;
+}
+
+/**
+ * Aggregate ship positions into a fleet-level summary for one period
+ * Surplus and deficit are reported gross; cb nets them off. Balances are summed
+ * exactly to whole grams
+ */
+export function summarizeFleetYear(year: number, positions: ShipYearPosition[]): FleetYearSummary {
+  return {
+    year,
+    shipCount: positions.length,
+    cb: sumGrams(positions.map(p => p.cb)),
+    surplus: sumGrams(positions.map(p => Math.max(p.cb, 0))),
+    deficit: sumGrams(positions.map(p => Math.max(-p.cb, 0))),
+    banked: sumGrams(positions.map(p => p.banked)),
+    borrowed: sumGrams(positions.map(p => p.borrowed)),
+    penaltyExposure: positions.reduce<Decimal>((sum, p) => sum.plus(p.penalty), new Decimal(0)).toNumber(),
+  };
+}
@@ -0,0 +1,110 @@
+// Domain Service: Fuel Catalogue (Annex II default factors)
+// Pure business logic - no framework dependencies
+
+import type { FuelDefinition, FuelMixEntry, FuelMixInput } from "@shared/schema";
+
+export const MJ_PER_GRAM_TO_MJ_PER_TONNE = 1_000_000;
+
+/**
+ * Default fuel factors from Annex II of Regulation (EU) 2023/1805
+ * LCV in MJ/g, WtT in gCO2e/MJ, Cf in g of gas per g of fuel
+ */
+export const DEFAULT_FUEL_CATALOGUE: ReadonlyArray<FuelDefinition> = [
+  { name: "HFO", fuelClass: "fossil", lcv: 0.0405, wttFactor: 13.5, cfCo2: 3.114, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "VLSFO", fuelClass: "fossil", lcv: 0.041, wttFactor: 13.2, cfCo2: 3.151, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "MGO", fuelClass: "fossil", lcv: 0.0427, wttFactor: 14.4, cfCo2: 3.206, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "Diesel", fuelClass: "fossil", lcv: 0.0427, wttFactor: 14.4, cfCo2: 3.206, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "LNG", fuelClass: "fossil", lcv: 0.0491, wttFactor: 18.5, cfCo2: 2.75, cfCh4: 0, cfN2o: 0.00011, slipApplies: true },
+  { name: "Methanol", fuelClass: "fossil", lcv: 0.0199, wttFactor: 31.3, cfCo2: 1.375, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "Ammonia", fuelClass: "fossil", lcv: 0.0186, wttFactor: 121, cfCo2: 0, cfCh4: 0, cfN2o: 0.00018 },
+  // Indicative RFNBO pathways - certified values should be supplied as overrides
+  { name: "e-Methanol", fuelClass: "rfnbo", lcv: 0.0199, wttFactor: 20, cfCo2: 0, cfCh4: 0.00005, cfN2o: 0.00018 },
+  { name: "e-Ammonia", fuelClass: "rfnbo", lcv: 0.0186, wttFactor: 10, cfCo2: 0, cfCh4: 0, cfN2o: 0.00018 },
+];
+
+export class UnknownFuelTypeError extends Error {
+  constructor(public fuelType: string, known: string[]) {
+    super(`Unknown fuel type "${fuelType}". Known fuel types: ${known.join(", ")}`);
+    this.name = 'UnknownFuelTypeError';
+  }
+}
+
+export interface FuelCatalogue {
+  list(): FuelDefinition[];
+  find(fuelType: string): FuelDefinition | undefined;
+  get(fuelType: string): FuelDefinition;
+}
+
+const normalize = (name: string) => (name ?? "").trim().toUpperCase();
+
+/**
+ * Build a catalogue from the defaults plus deployment overrides
+ * Overrides replace defaults with the same name (case-insensitive) or add new fuels
+ */
+export function createFuelCatalogue(overrides: FuelDefinition[] = []): FuelCatalogue {
+  const entries = new Map<string, FuelDefinition>();
+  for (const fuel of [...DEFAULT_FUEL_CATALOGUE, ...overrides]) {
+    entries.set(normalize(fuel.name), fuel);
+  }
+
+  const find = (fuelType: string) => entries.get(normalize(fuelType));
+
+  return {
+    list: () => Array.from(entries.values()),
+    find,
+    get(fuelType: string) {
+      const fuel = find(fuelType);
+      if (!fuel) {
+        throw new UnknownFuelTypeError(fuelType, Array.from(entries.values()).map(f => f.name));
+      }
+      return fuel;
+    },
+  };
+}
+
+/**
+ * Validate a catalogue entry supplied by a deployment override
+ */
+export function validateFuelDefinition(fuel: FuelDefinition): string[] {
+  const errors: string[] = [];
+  const label = fuel.name || "fuel";
+
+  if (!fuel.name?.trim()) errors.push("Fuel name is required");
+  if (!["fossil", "biofuel", "rfnbo"].includes(fuel.fuelClass)) {
+    errors.push(`${label}: fuelClass must be fossil, biofuel or rfnbo`);
+  }
+  if (!(fuel.lcv > 0)) errors.push(`${label}: LCV must be positive`);
+  for (const key of ["wttFactor", "cfCo2", "cfCh4", "cfN2o"] as const) {
+    if (typeof fuel[key] !== "number" || fuel[key] < 0) {
+      errors.push(`${label}: ${key} must be a non-negative number`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Energy content of a fuel mass
+ * Energy [MJ] = mass [t] × LCV [MJ/g] × 10^6
+ */
+export function calculateFuelEnergy(fuel: FuelDefinition, massTonnes: number): number {
+  return massTonnes * fuel.lcv * MJ_PER_GRAM_TO_MJ_PER_TONNE;
+}
+
+/**
+ * Fill in missing emission factors from the catalogue
+ */
+export function resolveFuelMixEntry(catalogue: FuelCatalogue, input: FuelMixInput): FuelMixEntry {
+  const fuel = catalogue.get(input.fuelType);
+  return {
+    fuelType: fuel.name,
+    fuelClass: input.fuelClass ?? fuel.fuelClass,
+    massTonnes: input.massTonnes,
+    lcv: input.lcv ?? fuel.lcv,
+    wttFactor: input.wttFactor ?? fuel.wttFactor,
+    cfCo2: input.cfCo2 ?? fuel.cfCo2,
+    cfCh4: input.cfCh4 ?? fuel.cfCh4,
+    cfN2o: input.cfN2o ?? fuel.cfN2o,
+    cslip: input.cslip,
+  };
+}
@@ -0,0 +1,155 @@
+// Domain Service: Well-to-Wake GHG Intensity (Annex I)
+// Pure business logic - no framework dependencies
+
+import type {
+  FuelMixEntry,
+  FuelMixInput,
+  ShipEngine,
+  FuelIntensityLine,
+  GasBreakdown,
+  GhgIntensityBreakdown,
+} from "@shared/schema";
+import { resolveFuelMixEntry, type FuelCatalogue } from "./fuel-catalogue";
+import { resolveMethaneSlip } from "./methane-slip";
+
+// Global warming potentials over 100 years (Annex I, IPCC AR4)
+export const GWP100 = {
+  co2: 1,
+  ch4: 25,
+  n2o: 298,
+} as const;
+
+export const GRAMS_PER_TONNE = 1_000_000;
+
+// Default tolerance between declared and computed intensity, gCO2e/MJ
+export const DEFAULT_INTENSITY_TOLERANCE = 0.5;
+
+/**
+ * Calculate emissions for a single fuel
+ * Energy = M × LCV
+ * WtT    = M × LCV × CO2eq_WtT
+ * TtW    = M × [(1 − Cslip/100) × (Cf_CO2 × GWP_CO2 + Cf_CH4 × GWP_CH4 + Cf_N2O × GWP_N2O)
+ *               + Cslip/100 × GWP_CH4]
+ */
+export function calculateFuelLine(fuel: FuelMixEntry): FuelIntensityLine {
+  const massGrams = fuel.massTonnes * GRAMS_PER_TONNE;
+  const energyMJ = massGrams * fuel.lcv;
+  const cslip = fuel.cslip ?? 0;
+  const combusted = 1 - cslip / 100;
+
+  const slipGco2eq = massGrams * (cslip / 100) * GWP100.ch4;
+  const ttwByGas: GasBreakdown = {
+    co2: massGrams * combusted * fuel.cfCo2 * GWP100.co2,
+    ch4: massGrams * combusted * fuel.cfCh4 * GWP100.ch4 + slipGco2eq,
+    n2o: massGrams * combusted * fuel.cfN2o * GWP100.n2o,
+  };
+
+  return {
+    fuelType: fuel.fuelType,
+    fuelClass: fuel.fuelClass,
+    massTonnes: fuel.massTonnes,
+    energyMJ,
+    wttGco2eq: energyMJ * fuel.wttFactor,
+    ttwGco2eq: ttwByGas.co2 + ttwByGas.ch4 + ttwByGas.n2o,
+    ttwByGas,
+    cslip,
+    slipGco2eq,
+  };
+}
+
+/**
+ * Well-to-wake GHG intensity of a fuel mix
+ * GHGIE = (Σ WtT + Σ TtW) / Σ Energy  [gCO2e/MJ]
+ * Per-fuel and per-gas figures are kept so the result can be audited
+ * The RFNBO reward factor is not applied here (see rfnbo-service)
+ */
+export function calculateGhgIntensity(fuels: FuelMixEntry[]): GhgIntensityBreakdown {
+  const lines = fuels.map(calculateFuelLine);
+
+  const energyMJ = lines.reduce((sum, l) => sum + l.energyMJ, 0);
+  const rfnboEnergyMJ = lines
+    .filter(l => l.fuelClass === "rfnbo")
+    .reduce((sum, l) => sum + l.energyMJ, 0);
+  const wttGco2eq = lines.reduce((sum, l) => sum + l.wttGco2eq, 0);
+  const ttwByGas: GasBreakdown = {
+    co2: lines.reduce((sum, l) => sum + l.ttwByGas.co2, 0),
+    ch4: lines.reduce((sum, l) => sum + l.ttwByGas.ch4, 0),
+    n2o: lines.reduce((sum, l) => sum + l.ttwByGas.n2o, 0),
+  };
+  const ttwGco2eq = ttwByGas.co2 + ttwByGas.ch4 + ttwByGas.n2o;
+
+  const wttIntensity = energyMJ > 0 ? wttGco2eq / energyMJ : 0;
+  const ttwIntensity = energyMJ > 0 ? ttwGco2eq / energyMJ : 0;
+
+  return {
+    energyMJ,
+    rfnboEnergyMJ,
+    wttGco2eq,
+    ttwGco2eq,
+    ttwByGas,
+    wttIntensity,
+    ttwIntensity,
+    ghgIntensity: wttIntensity + ttwIntensity,
+    fuels: lines,
+  };
+}
+
+/**
+ * Aggregate intensity over consumption lines using catalogue factors
+ * Lines of the same fuel from different consumers are kept separate, and
+ * gas fuels pick up the methane slip of the consumer that burned them
+ */
+export function calculateFuelLinesIntensity(
+  catalogue: FuelCatalogue,
+  lines: Array<FuelMixInput & { consumer?: string | null }>,
+  engines: ShipEngine[] = []
+): GhgIntensityBreakdown {
+  return calculateGhgIntensity(lines.map(line => {
+    const entry = resolveFuelMixEntry(catalogue, line);
+    return {
+      ...entry,
+      cslip: line.cslip ?? resolveMethaneSlip(catalogue.get(line.fuelType), line.consumer, engines),
+    };
+  }));
+}
+
+/**
+ * Validate fuel mix inputs before calculation
+ */
+export function validateFuelMix(fuels: FuelMixEntry[]): string[] {
+  const errors: string[] = [];
+
+  if (fuels.length === 0) {
+    errors.push("At least one fuel is required");
+  }
+
+  for (const fuel of fuels) {
+    const label = fuel.fuelType || "fuel";
+    if (!fuel.fuelType?.trim()) errors.push("Fuel type is required");
+    if (!(fuel.massTonnes > 0)) errors.push(`${label}: mass must be positive`);
+    if (!(fuel.lcv > 0)) errors.push(`${label}: LCV must be positive`);
+    for (const key of ["wttFactor", "cfCo2", "cfCh4", "cfN2o"] as const) {
+      if (typeof fuel[key] !== "number" || fuel[key] < 0) {
+        errors.push(`${label}: ${key} must be a non-negative number`);
+      }
+    }
+    if (fuel.cslip !== undefined && !(fuel.cslip >= 0 && fuel.cslip <= 100)) {
+      errors.push(`${label}: cslip must be between 0 and 100`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Compare a declared intensity with the computed one
+ * Mismatch when |declared − computed| > tolerance
+ */
+export function checkDeclaredIntensity(
+  declaredIntensity: number,
+  computedIntensity: number,
+  tolerance: number = DEFAULT_INTENSITY_TOLERANCE
+): { deviation: number; mismatch: boolean } {
+  const deviation = declaredIntensity - computedIntensity;
+  return { deviation, mismatch: Math.abs(deviation) > tolerance };
+}
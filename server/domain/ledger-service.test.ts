@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateComputationDelta,
+  chainLedgerEntry,
+  projectBalance,
+  verifyLedger
+} from "./ledger-service";
+
+describe("chainLedgerEntry", () => {
+  it("starts the first entry from a zero balance", () => {
+    assert.deepEqual(chainLedgerEntry(undefined, 100), { cbBefore: 0, cbAfter: 100 });
+  });
+
+  it("links each entry to the previous cbAfter", () => {
+    assert.deepEqual(chainLedgerEntry({ cbAfter: 100 }, -30), { cbBefore: 100, cbAfter: 70 });
+  });
+});
+
+describe("verifyLedger", () => {
+  const chain = [
+    { id: 1, amountGco2eq: 100, cbBefore: 0, cbAfter: 100 },
+    { id: 2, amountGco2eq: -30, cbBefore: 100, cbAfter: 70 },
+    { id: 3, amountGco2eq: 5, cbBefore: 70, cbAfter: 75 },
+  ];
+
+  it("accepts an unbroken chain and replays its balance", () => {
+    assert.deepEqual(verifyLedger(chain), { balance: 75, consistent: true, discrepancies: [] });
+  });
+
+  it("flags an entry whose cbBefore does not follow the previous entry", () => {
+    const broken = [chain[0], { ...chain[1], cbBefore: 90, cbAfter: 60 }];
+    const result = verifyLedger(broken);
+
+    assert.equal(result.consistent, false);
+    assert.deepEqual(result.discrepancies, [
+      { entryId: 2, message: "cbBefore 90 does not match replayed balance 100" },
+    ]);
+  });
+
+  it("flags an entry whose cbAfter is not cbBefore + amount", () => {
+    const broken = [chain[0], { ...chain[1], cbAfter: 71 }];
+    const result = verifyLedger(broken);
+
+    assert.equal(result.consistent, false);
+    assert.deepEqual(result.discrepancies, [
+      { entryId: 2, message: "cbAfter 71 is not cbBefore + amount" },
+    ]);
+  });
+});
+
+describe("calculateComputationDelta", () => {
+  const entries = [
+    { entryType: "computation" as const, amountGco2eq: 1_000 },
+    { entryType: "bank" as const, amountGco2eq: -400 },
+    { entryType: "pool" as const, amountGco2eq: 50 },
+  ];
+
+  it("records only the change from the previously computed CB", () => {
+    assert.equal(calculateComputationDelta(entries, 1_200), 200);
+    assert.equal(calculateComputationDelta(entries, 1_000), 0);
+  });
+
+  it("leaves banking and pooling entries in the balance", () => {
+    const next = [...entries, { entryType: "computation" as const, amountGco2eq: calculateComputationDelta(entries, 800) }];
+    assert.equal(projectBalance(next), 800 - 400 + 50);
+  });
+});
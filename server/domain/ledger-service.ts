@@ -0,0 +1,74 @@
+// Domain Service: Compliance Ledger (append-only CB history)
+// Pure business logic - no framework dependencies
+
+import type { LedgerDiscrepancy, LedgerEntry } from "@shared/schema";
+import { Decimal, sumGrams, toGrams } from "./balance-precision";
+
+type LedgerAmounts = Pick<LedgerEntry, "entryType" | "amountGco2eq">;
+
+/**
+ * Current CB as a projection over the ledger
+ * CB = Σ amount over all entries, in append order
+ */
+export function projectBalance(entries: LedgerAmounts[]): number {
+  return sumGrams(entries.map(entry => entry.amountGco2eq));
+}
+
+/**
+ * CB attributable to route computations alone (before banking, borrowing, pooling)
+ */
+export function projectComputedBalance(entries: LedgerAmounts[]): number {
+  return projectBalance(entries.filter(entry => entry.entryType === "computation"));
+}
+
+/**
+ * Amount a new computation entry must carry
+ * A recomputation records only the change from the previously computed CB,
+ * so bank, apply, borrow and pool entries are never overwritten
+ */
+export function calculateComputationDelta(entries: LedgerAmounts[], computedCb: number): number {
+  return toGrams(new Decimal(computedCb).minus(projectComputedBalance(entries)));
+}
+
+/**
+ * Balance chain for the next entry
+ */
+export function chainLedgerEntry(
+  previous: Pick<LedgerEntry, "cbAfter"> | undefined,
+  amount: number
+): { cbBefore: number; cbAfter: number } {
+  const cbBefore = previous?.cbAfter ?? 0;
+  return { cbBefore, cbAfter: toGrams(new Decimal(cbBefore).plus(amount)) };
+}
+
+/**
+ * Replay a ledger and check every entry links to the one before it
+ * Balances are whole grams, so the chain must match exactly
+ * cbBefore_n = cbAfter_(n−1) (0 for the first entry), cbAfter_n = cbBefore_n + amount_n
+ */
+export function verifyLedger(
+  entries: Array<Pick<LedgerEntry, "id" | "amountGco2eq" | "cbBefore" | "cbAfter">>
+): { balance: number; consistent: boolean; discrepancies: LedgerDiscrepancy[] } {
+  const discrepancies: LedgerDiscrepancy[] = [];
+  let balance = new Decimal(0);
+
+  for (const entry of entries) {
+    if (!balance.eq(entry.cbBefore)) {
+      discrepancies.push({
+        entryId: entry.id,
+        message: `cbBefore ${entry.cbBefore} does not match replayed balance ${balance}`,
+      });
+    }
+
+    balance = balance.plus(entry.amountGco2eq);
+
+    if (!new Decimal(entry.cbBefore).plus(entry.amountGco2eq).eq(entry.cbAfter)) {
+      discrepancies.push({
+        entryId: entry.id,
+        message: `cbAfter ${entry.cbAfter} is not cbBefore + amount`,
+      });
+    }
+  }
+
+  return { balance: balance.toNumber(), consistent: discrepancies.length === 0, discrepancies };
+}
@@ -0,0 +1,40 @@
+// Domain Service: Methane Slip by Engine Type (Annex II, Cslip)
+// Pure business logic - no framework dependencies
+
+import type { EngineType, FuelDefinition, ShipEngine } from "@shared/schema";
+
+/**
+ * Default Cslip values (% of fuel mass) per LNG consumer type
+ * Non-gas consumers have no slip
+ */
+export const METHANE_SLIP_BY_ENGINE: Record<EngineType, number> = {
+  lng_otto_medium_speed: 3.1,
+  lng_otto_slow_speed: 1.7,
+  lng_diesel_slow_speed: 0.2,
+  lbsi: 2.6,
+  diesel: 0,
+  boiler: 0,
+  other: 0,
+};
+
+// Applied to slip fuels burned by a consumer that is not registered
+export const DEFAULT_SLIP_ENGINE: EngineType = "lng_otto_medium_speed";
+
+/**
+ * Resolve Cslip for a consumption line
+ * Slip applies only to gas fuels; the consumer is matched by name
+ * against the ship's engine registry (case-insensitive)
+ */
+export function resolveMethaneSlip(
+  fuel: FuelDefinition,
+  consumer: string | null | undefined,
+  engines: ShipEngine[]
+): number {
+  if (!fuel.slipApplies) return 0;
+
+  const engine = consumer
+    ? engines.find(e => e.name.trim().toLowerCase() === consumer.trim().toLowerCase())
+    : undefined;
+
+  return METHANE_SLIP_BY_ENGINE[engine?.engineType ?? DEFAULT_SLIP_ENGINE];
+}
@@ -0,0 +1,80 @@
+// Domain Service: Onshore Power Supply at Berth (Article 6, Article 23(5))
+// Pure business logic - no framework dependencies
+
+import type { PortCall, PortCallAssessment } from "@shared/schema";
+
+// Domain constants - FuelEU Maritime Regulation
+export const OPS_FIRST_YEAR = 2030;
+export const OPS_MIN_BERTH_HOURS = 2; // calls shorter than this are out of scope
+export const OPS_PENALTY_EUR_PER_KWH = 1.5;
+export const OPS_AFFECTED_VESSEL_TYPES = ["Container", "Passenger", "Cruise", "RoPax"] as const;
+
+export interface OpsComplianceSummary {
+  applies: boolean;
+  nonCompliantCalls: number;
+  nonCompliantHours: number;
+  penalty: number; // €
+  calls: PortCallAssessment[];
+}
+
+/**
+ * Check whether a vessel type falls under the OPS obligation
+ */
+export function isOpsAffectedVesselType(vesselType: string): boolean {
+  return OPS_AFFECTED_VESSEL_TYPES.some(t => t.toLowerCase() === vesselType.trim().toLowerCase());
+}
+
+/**
+ * Assess a single port call
+ * Only TEN-T calls of at least 2 hours count; an exemption or OPS use makes
+ * the call compliant. Non-compliant hours are rounded up to whole hours.
+ * Penalty = 1.5 €/kWh × electrical demand [kW] × non-compliant hours
+ */
+export function assessPortCall(call: PortCall, applies: boolean): PortCallAssessment {
+  const base = {
+    portCallId: call.id,
+    portCode: call.portCode,
+    berthHours: call.berthHours,
+    nonCompliantHours: 0,
+    penalty: 0,
+  };
+
+  if (!applies || !call.isTenTPort || call.berthHours < OPS_MIN_BERTH_HOURS) {
+    return { ...base, status: "not_applicable" };
+  }
+  if (call.exemptionReason) {
+    return { ...base, status: "exempt" };
+  }
+  if (call.opsUsed) {
+    return { ...base, status: "compliant" };
+  }
+
+  const nonCompliantHours = Math.ceil(call.berthHours);
+  return {
+    ...base,
+    status: "non_compliant",
+    nonCompliantHours,
+    penalty: OPS_PENALTY_EUR_PER_KWH * call.electricalDemandKw * nonCompliantHours,
+  };
+}
+
+/**
+ * Summarize OPS compliance for a ship's port calls in one reporting period
+ */
+export function summarizeOpsCompliance(
+  calls: PortCall[],
+  vesselType: string,
+  year: number
+): OpsComplianceSummary {
+  const applies = year >= OPS_FIRST_YEAR && isOpsAffectedVesselType(vesselType);
+  const assessed = calls.map(call => assessPortCall(call, applies));
+  const nonCompliant = assessed.filter(a => a.status === "non_compliant");
+
+  return {
+    applies,
+    nonCompliantCalls: nonCompliant.length,
+    nonCompliantHours: nonCompliant.reduce((sum, a) => sum + a.nonCompliantHours, 0),
+    penalty: nonCompliant.reduce((sum, a) => sum + a.penalty, 0),
+    calls: assessed,
+  };
+}
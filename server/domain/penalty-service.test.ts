@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateEscalationFactor,
+  calculatePenalty,
+  countConsecutiveDeficitYears
+} from "./penalty-service";
+
+describe("calculateEscalationFactor", () => {
+  it("adds 10% for every consecutive deficit period after the first", () => {
+    assert.equal(calculateEscalationFactor(1), 1);
+    assert.equal(calculateEscalationFactor(2), 1.1);
+    assert.equal(calculateEscalationFactor(3), 1.2);
+  });
+
+  it("never drops below 1", () => {
+    assert.equal(calculateEscalationFactor(0), 1);
+  });
+});
+
+describe("calculatePenalty", () => {
+  it("converts the deficit to VLSFO-equivalent tonnes at 2 400 € per tonne", () => {
+    const result = calculatePenalty(-10_000_000, 95, 1);
+
+    assert.equal(result.deficit, 10_000_000);
+    assert.equal(result.vlsfoEquivalentTonnes, 10_000_000 / (95 * 41_000));
+    assert.equal(result.basePenalty, result.vlsfoEquivalentTonnes * 2400);
+    assert.equal(result.escalationFactor, 1);
+    assert.ok(Math.abs(result.penalty - 6161.745827984596) < 1e-9);
+  });
+
+  it("multiplies the base penalty for consecutive deficit periods", () => {
+    const result = calculatePenalty(-10_000_000, 95, 3);
+
+    assert.equal(result.consecutiveDeficitYears, 3);
+    assert.equal(result.escalationFactor, 1.2);
+    assert.equal(result.penalty, result.basePenalty * 1.2);
+  });
+
+  it("carries no penalty for a zero or positive CB", () => {
+    for (const cb of [0, 5_000_000]) {
+      assert.deepEqual(calculatePenalty(cb, 95, 2), {
+        deficit: 0,
+        vlsfoEquivalentTonnes: 0,
+        basePenalty: 0,
+        consecutiveDeficitYears: 0,
+        escalationFactor: 1,
+        penalty: 0,
+      });
+    }
+  });
+});
+
+describe("countConsecutiveDeficitYears", () => {
+  it("counts deficit periods back from the given year", () => {
+    const history = [
+      { year: 2027, cbGco2eq: -1 },
+      { year: 2026, cbGco2eq: -1 },
+      { year: 2025, cbGco2eq: 1 },
+      { year: 2024, cbGco2eq: -1 },
+    ];
+    assert.equal(countConsecutiveDeficitYears(history, 2027), 2);
+    assert.equal(countConsecutiveDeficitYears(history, 2025), 0);
+  });
+
+  it("stops at a missing year", () => {
+    const history = [{ year: 2027, cbGco2eq: -1 }, { year: 2025, cbGco2eq: -1 }];
+    assert.equal(countConsecutiveDeficitYears(history, 2027), 1);
+  });
+
+  it("uses the latest record for each year", () => {
+    const history = [
+      { year: 2026, cbGco2eq: 1 },
+      { year: 2026, cbGco2eq: -1 },
+      { year: 2025, cbGco2eq: -1 },
+    ];
+    assert.equal(countConsecutiveDeficitYears(history, 2026), 0);
+  });
+});
@@ -0,0 +1,82 @@
+// Domain Service: Remedial Penalty (Article 23, Annex IV Part B)
+// Pure business logic - no framework dependencies
+
+import type { ShipCompliance } from "@shared/schema";
+
+// Domain constants - FuelEU Maritime Regulation
+export const PENALTY_EUR_PER_TONNE_VLSFO = 2400; // € per tonne VLSFO-equivalent
+export const VLSFO_ENERGY_MJ_PER_TONNE = 41000; // MJ per tonne VLSFO
+export const PENALTY_ESCALATION_RATE = 0.1; // +10% per consecutive deficit year
+
+export interface PenaltyBreakdown {
+  deficit: number; // gCO2eq, positive magnitude
+  vlsfoEquivalentTonnes: number;
+  basePenalty: number; // €
+  consecutiveDeficitYears: number;
+  escalationFactor: number;
+  penalty: number; // €
+}
+
+/**
+ * Escalation multiplier for consecutive deficit periods
+ * Factor = 1 + (n − 1) × 10%, where n counts the current period
+ */
+export function calculateEscalationFactor(consecutiveDeficitYears: number): number {
+  return 1 + Math.max(consecutiveDeficitYears - 1, 0) * PENALTY_ESCALATION_RATE;
+}
+
+/**
+ * Calculate FuelEU remedial penalty for a compliance balance
+ * Penalty = |CB| / (GHGIE_actual × 41 000) × 2 400 × escalation
+ * A zero or positive CB carries no penalty
+ */
+export function calculatePenalty(
+  cb: number,
+  actualIntensity: number,
+  consecutiveDeficitYears: number
+): PenaltyBreakdown {
+  if (cb >= 0 || actualIntensity <= 0) {
+    return {
+      deficit: 0,
+      vlsfoEquivalentTonnes: 0,
+      basePenalty: 0,
+      consecutiveDeficitYears: 0,
+      escalationFactor: 1,
+      penalty: 0,
+    };
+  }
+
+  const deficit = Math.abs(cb);
+  const vlsfoEquivalentTonnes = deficit / (actualIntensity * VLSFO_ENERGY_MJ_PER_TONNE);
+  const basePenalty = vlsfoEquivalentTonnes * PENALTY_EUR_PER_TONNE_VLSFO;
+  const escalationFactor = calculateEscalationFactor(consecutiveDeficitYears);
+
+  return {
+    deficit,
+    vlsfoEquivalentTonnes,
+    basePenalty,
+    consecutiveDeficitYears,
+    escalationFactor,
+    penalty: basePenalty * escalationFactor,
+  };
+}
+
+/**
+ * Count consecutive deficit periods ending at the given year
+ * Uses the latest record per year; a missing year breaks the streak
+ */
+export function countConsecutiveDeficitYears(
+  history: Array<Pick<ShipCompliance, "year" | "cbGco2eq">>,
+  year: number
+): number {
+  const byYear = new Map<number, number>();
+  for (const record of history) {
+    if (!byYear.has(record.year)) byYear.set(record.year, record.cbGco2eq);
+  }
+
+  let count = 0;
+  for (let y = year; byYear.has(y) && byYear.get(y)! < 0; y--) {
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { allocatePoolBalances, validatePool } from "./pooling-service";
+
+describe("allocatePoolBalances", () => {
+  it("moves surplus to deficits, largest surplus first", () => {
+    const result = allocatePoolBalances([
+      { shipId: "B", cbBefore: -3_000 },
+      { shipId: "A", cbBefore: 5_000 },
+      { shipId: "C", cbBefore: -1_000 },
+    ]);
+
+    assert.deepEqual(result, [
+      { shipId: "A", cbBefore: 5_000, cbAfter: 1_000 },
+      { shipId: "C", cbBefore: -1_000, cbAfter: 0 },
+      { shipId: "B", cbBefore: -3_000, cbAfter: 0 },
+    ]);
+  });
+
+  it("leaves a remaining deficit when the surplus runs out", () => {
+    const result = allocatePoolBalances([
+      { shipId: "A", cbBefore: 1_000 },
+      { shipId: "B", cbBefore: -3_000 },
+    ]);
+
+    assert.deepEqual(result.map(m => m.cbAfter), [0, -2_000]);
+  });
+});
+
+describe("validatePool", () => {
+  it("accepts an allocation that follows Article 21", () => {
+    const members = allocatePoolBalances([
+      { shipId: "A", cbBefore: 5_000 },
+      { shipId: "B", cbBefore: -3_000 },
+    ]);
+    assert.deepEqual(validatePool(members), { valid: true, errors: [] });
+  });
+
+  it("requires a non-negative pool sum", () => {
+    const result = validatePool([
+      { shipId: "A", cbBefore: 1_000, cbAfter: 0 },
+      { shipId: "B", cbBefore: -3_000, cbAfter: -2_000 },
+    ]);
+    assert.deepEqual(result.errors, ["Total pool sum must be >= 0"]);
+  });
+
+  it("refuses a deficit ship exiting worse or a surplus ship exiting negative", () => {
+    const result = validatePool([
+      { shipId: "A", cbBefore: 1_000, cbAfter: -500 },
+      { shipId: "B", cbBefore: -500, cbAfter: -1_000 },
+      { shipId: "C", cbBefore: 2_000, cbAfter: 3_500 },
+    ]);
+    assert.deepEqual(result, {
+      valid: false,
+      errors: ["Ship B would exit worse than entry", "Ship A would exit with negative CB"],
+    });
+  });
+});
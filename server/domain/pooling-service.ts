@@ -1,6 +1,8 @@
 // Domain Service: Pooling Logic (Article 21)
 // Pure business logic - no framework dependencies
 
+import { Decimal, toGrams } from "./balance-precision";
+
 export interface PoolMember {
   shipId: string;
   cbBefore: number;
@@ -15,41 +17,42 @@ export interface PoolValidationResult {
 /**
  * Greedy allocation algorithm for pooling
  * Sort members by CB (descending), transfer surplus to deficits
+ * Transfers are exact decimals; results are whole gCO2eq
  * Article 21 - FuelEU Maritime Regulation
  */
 export function allocatePoolBalances(
   members: Array<{ shipId: string; cbBefore: number }>
 ): Array<{ shipId: string; cbBefore: number; cbAfter: number }> {
   const sorted = [...members].sort((a, b) => b.cbBefore - a.cbBefore);
-  const results = sorted.map(m => ({ ...m, cbAfter: m.cbBefore }));
+  const balances = sorted.map(m => new Decimal(toGrams(m.cbBefore)));
   
   let surplusIdx = 0;
-  let deficitIdx = results.length - 1;
+  let deficitIdx = balances.length - 1;
   
   while (surplusIdx < deficitIdx) {
-    const surplus = results[surplusIdx];
-    const deficit = results[deficitIdx];
+    const surplus = balances[surplusIdx];
+    const deficit = balances[deficitIdx];
     
-    if (surplus.cbAfter <= 0) {
+    if (surplus.lte(0)) {
       surplusIdx++;
       continue;
     }
     
-    if (deficit.cbAfter >= 0) {
+    if (deficit.gte(0)) {
       deficitIdx--;
       continue;
     }
     
-    const transferAmount = Math.min(surplus.cbAfter, Math.abs(deficit.cbAfter));
+    const transferAmount = surplus.lt(deficit.abs()) ? surplus : deficit.abs();
     
-    surplus.cbAfter -= transferAmount;
-    deficit.cbAfter += transferAmount;
+    balances[surplusIdx] = surplus.minus(transferAmount);
+    balances[deficitIdx] = deficit.plus(transferAmount);
     
-    if (surplus.cbAfter <= 0) surplusIdx++;
-    if (deficit.cbAfter >= 0) deficitIdx--;
+    if (balances[surplusIdx].lte(0)) surplusIdx++;
+    if (balances[deficitIdx].gte(0)) deficitIdx--;
   }
   
-  return results;
+  return sorted.map((m, i) => ({ ...m, cbAfter: toGrams(balances[i]) }));
 }
 
 /**
@@ -62,11 +65,11 @@ export function allocatePoolBalances(
 export function validatePool(
   members: Array<{ shipId: string; cbBefore: number; cbAfter: number }>
 ): PoolValidationResult {
-  const totalSum = members.reduce((sum, m) => sum + m.cbBefore, 0);
+  const totalSum = members.reduce((sum, m) => sum.plus(m.cbBefore), new Decimal(0));
   const errors: string[] = [];
   
   // Rule 1: Sum must be >= 0
-  if (totalSum < 0) {
+  if (totalSum.lt(0)) {
     errors.push("Total pool sum must be >= 0");
   }
   
@@ -0,0 +1,119 @@
+// Domain Service: Port Reference (UN/LOCODE classification)
+// Pure business logic - no framework dependencies
+
+import type { PortDefinition } from "@shared/schema";
+
+// EU Member States and EEA EFTA states (Iceland, Liechtenstein, Norway)
+export const EU_EEA_COUNTRIES: ReadonlySet<string> = new Set([
+  "AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE",
+  "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE",
+  "IS", "LI", "NO",
+]);
+
+// Outermost regions (Article 349 TFEU) listed under their own ISO country codes;
+// the Canary Islands, Azores and Madeira share ES/PT and are flagged per port
+export const OUTERMOST_REGION_COUNTRIES: ReadonlySet<string> = new Set([
+  "GP", "MQ", "GF", "RE", "YT", "MF",
+]);
+
+/**
+ * Offline port reference table
+ * isTenT marks indicative TEN-T core/comprehensive designation for OPS purposes
+ */
+export const DEFAULT_PORTS: ReadonlyArray<PortDefinition> = [
+  { locode: "NLRTM", name: "Rotterdam", country: "NL", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "BEANR", name: "Antwerp", country: "BE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "DEHAM", name: "Hamburg", country: "DE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "DEBRV", name: "Bremerhaven", country: "DE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "FRLEH", name: "Le Havre", country: "FR", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "FRMRS", name: "Marseille", country: "FR", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "ESALG", name: "Algeciras", country: "ES", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "ESVLC", name: "Valencia", country: "ES", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "ESBCN", name: "Barcelona", country: "ES", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "ITGOA", name: "Genoa", country: "IT", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "ITGIT", name: "Gioia Tauro", country: "IT", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "GRPIR", name: "Piraeus", country: "GR", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "PTSIN", name: "Sines", country: "PT", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "PTLIS", name: "Lisbon", country: "PT", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "PLGDN", name: "Gdansk", country: "PL", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "SEGOT", name: "Gothenburg", country: "SE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "DKAAR", name: "Aarhus", country: "DK", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "FIHEL", name: "Helsinki", country: "FI", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "EETLL", name: "Tallinn", country: "EE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "MTMAR", name: "Marsaxlokk", country: "MT", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "IEDUB", name: "Dublin", country: "IE", isEuEea: true, isOutermostRegion: false, isTenT: true },
+  { locode: "NOOSL", name: "Oslo", country: "NO", isEuEea: true, isOutermostRegion: false, isTenT: false },
+  { locode: "NOBGO", name: "Bergen", country: "NO", isEuEea: true, isOutermostRegion: false, isTenT: false },
+  { locode: "ISREY", name: "Reykjavik", country: "IS", isEuEea: true, isOutermostRegion: false, isTenT: false },
+  // Outermost regions
+  { locode: "ESLPA", name: "Las Palmas de Gran Canaria", country: "ES", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  { locode: "ESSCT", name: "Santa Cruz de Tenerife", country: "ES", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  { locode: "PTPDL", name: "Ponta Delgada", country: "PT", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  { locode: "PTFNC", name: "Funchal", country: "PT", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  { locode: "GPPTP", name: "Pointe-à-Pitre", country: "GP", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  { locode: "MQFDF", name: "Fort-de-France", country: "MQ", isEuEea: true, isOutermostRegion: true, isTenT: true },
+  // Third-country ports
+  { locode: "GBFXT", name: "Felixstowe", country: "GB", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "GBSOU", name: "Southampton", country: "GB", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "MAPTM", name: "Tanger Med", country: "MA", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "EGPSD", name: "Port Said", country: "EG", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "TRAMR", name: "Ambarli", country: "TR", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "AEJEA", name: "Jebel Ali", country: "AE", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "SGSIN", name: "Singapore", country: "SG", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "CNSHA", name: "Shanghai", country: "CN", isEuEea: false, isOutermostRegion: false, isTenT: false },
+  { locode: "USNYC", name: "New York", country: "US", isEuEea: false, isOutermostRegion: false, isTenT: false },
+];
+
+export class InvalidLocodeError extends Error {
+  constructor(public locode: string) {
+    super(`Invalid UN/LOCODE "${locode}". Expected a 2-letter country code followed by 3 characters`);
+    this.name = 'InvalidLocodeError';
+  }
+}
+
+export interface PortReference {
+  list(): PortDefinition[];
+  find(locode: string): PortDefinition | undefined;
+  classify(locode: string): PortDefinition;
+}
+
+const normalize = (locode: string) => (locode ?? "").replace(/\s+/g, "").toUpperCase();
+
+/**
+ * Build a port reference from a table of known ports
+ * Ports missing from the table are classified from their country prefix;
+ * they are never flagged TEN-T
+ */
+export function createPortReference(ports: ReadonlyArray<PortDefinition> = DEFAULT_PORTS): PortReference {
+  const entries = new Map<string, PortDefinition>();
+  for (const port of ports) {
+    entries.set(normalize(port.locode), port);
+  }
+
+  const find = (locode: string) => entries.get(normalize(locode));
+
+  return {
+    list: () => Array.from(entries.values()),
+    find,
+    classify(locode: string) {
+      const code = normalize(locode);
+      if (!/^[A-Z]{2}[A-Z2-9]{3}$/.test(code)) throw new InvalidLocodeError(locode);
+
+      const known = find(code);
+      if (known) return known;
+
+      const country = code.slice(0, 2);
+      const isOutermostRegion = OUTERMOST_REGION_COUNTRIES.has(country);
+      return {
+        locode: code,
+        name: code,
+        country,
+        isEuEea: EU_EEA_COUNTRIES.has(country) || isOutermostRegion,
+        isOutermostRegion,
+        isTenT: false,
+      };
+    },
+  };
+}
+
+export const portReference = createPortReference();
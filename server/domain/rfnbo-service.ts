@@ -0,0 +1,69 @@
+// Domain Service: RFNBO Incentives (Article 4(4), Article 5, Annex IV)
+// Pure business logic - no framework dependencies
+
+// Domain constants - FuelEU Maritime Regulation
+export const RFNBO_REWARD_FACTOR = 2; // RWD multiplier on RFNBO energy
+export const RFNBO_REWARD_FIRST_YEAR = 2025;
+export const RFNBO_REWARD_LAST_YEAR = 2033;
+export const RFNBO_SUBTARGET_FIRST_YEAR = 2034;
+export const RFNBO_SUBTARGET_SHARE = 0.02; // 2% of energy used on board
+export const RFNBO_PENALTY_EUR_PER_MJ = 2; // Pd - RFNBO vs fossil price difference
+
+export interface RfnboAssessment {
+  energyMJ: number;
+  share: number;
+  rewardFactor: number;
+  subTargetApplies: boolean;
+  subTargetShare: number;
+  shortfallMJ: number;
+  penalty: number; // €
+}
+
+/**
+ * Reward factor applicable to RFNBO energy in a reporting period
+ */
+export function getRfnboRewardFactor(year: number): number {
+  return year >= RFNBO_REWARD_FIRST_YEAR && year <= RFNBO_REWARD_LAST_YEAR
+    ? RFNBO_REWARD_FACTOR
+    : 1;
+}
+
+/**
+ * Apply the RFNBO reward to a well-to-wake intensity
+ * GHGIE = Σ emissions / (Σ energy + (RWD − 1) × RFNBO energy)
+ */
+export function applyRfnboReward(
+  ghgIntensity: number,
+  energyMJ: number,
+  rfnboEnergyMJ: number,
+  year: number
+): number {
+  const rewardedEnergy = energyMJ + (getRfnboRewardFactor(year) - 1) * rfnboEnergyMJ;
+  return rewardedEnergy > 0 ? (ghgIntensity * energyMJ) / rewardedEnergy : ghgIntensity;
+}
+
+/**
+ * Assess RFNBO share against the 2% sub-target
+ * Penalty = (2% × Σ energy − RFNBO energy) × Pd, from 2034 onwards
+ */
+export function assessRfnbo(
+  energyMJ: number,
+  rfnboEnergyMJ: number,
+  year: number
+): RfnboAssessment {
+  const share = energyMJ > 0 ? rfnboEnergyMJ / energyMJ : 0;
+  const subTargetApplies = year >= RFNBO_SUBTARGET_FIRST_YEAR;
+  const shortfallMJ = subTargetApplies
+    ? Math.max(RFNBO_SUBTARGET_SHARE * energyMJ - rfnboEnergyMJ, 0)
+    : 0;
+
+  return {
+    energyMJ: rfnboEnergyMJ,
+    share,
+    rewardFactor: getRfnboRewardFactor(year),
+    subTargetApplies,
+    subTargetShare: RFNBO_SUBTARGET_SHARE,
+    shortfallMJ,
+    penalty: shortfallMJ * RFNBO_PENALTY_EUR_PER_MJ,
+  };
+}
@@ -0,0 +1,17 @@
+// Domain Service: Ship Identity
+// Pure business logic - no framework dependencies
+
+/**
+ * Validate an IMO ship identification number
+ * Seven digits; the last is a check digit: Σ(digit_i × (7 − i)) mod 10, i = 0..5
+ */
+export function isValidImoNumber(imoNumber: string): boolean {
+  if (!/^\d{7}$/.test(imoNumber)) return false;
+
+  const digits = imoNumber.split("").map(Number);
+  const checksum = digits
+    .slice(0, 6)
+    .reduce((sum, digit, i) => sum + digit * (7 - i), 0);
+
+  return checksum % 10 === digits[6];
+}
@@ -0,0 +1,122 @@
+// Domain Service: Voyages (Article 2 scope and reporting period)
+// Pure business logic - no framework dependencies
+
+import type { PortDefinition, PortStay, Voyage, VoyageScope } from "@shared/schema";
+
+const MS_PER_HOUR = 3_600_000;
+
+/**
+ * Derive the scope of a voyage from its port classification
+ * EU/EEA → EU/EEA is intra-EU; one EU/EEA end makes it an extra-EU voyage;
+ * null when neither port is in the EU/EEA (outside FuelEU scope).
+ * Outermost-region ports count as EU ports
+ */
+export function deriveVoyageScope(
+  departure: PortDefinition,
+  arrival: PortDefinition
+): VoyageScope | null {
+  if (departure.isEuEea && arrival.isEuEea) return "intra_eu";
+  if (departure.isEuEea) return "eu_to_third_country";
+  if (arrival.isEuEea) return "third_country_to_eu";
+  return null;
+}
+
+/**
+ * Reporting period of a voyage
+ * Voyages spanning a year end are attributed to the year of arrival (UTC)
+ */
+export function deriveReportingYear(arrivalAt: Date): number {
+  return arrivalAt.getUTCFullYear();
+}
+
+/**
+ * Validate voyage timing and quantities
+ */
+export function validateVoyage(voyage: Pick<Voyage,
+  "departurePort" | "arrivalPort" | "departureAt" | "arrivalAt" | "fuelConsumption" | "distance" | "totalEmissions"
+>): string[] {
+  const errors: string[] = [];
+
+  if (isNaN(voyage.departureAt.getTime())) errors.push("departureAt must be a valid timestamp");
+  if (isNaN(voyage.arrivalAt.getTime())) errors.push("arrivalAt must be a valid timestamp");
+  if (errors.length === 0 && voyage.arrivalAt <= voyage.departureAt) {
+    errors.push("arrivalAt must be after departureAt");
+  }
+  if (voyage.fuelConsumption < 0) errors.push("fuelConsumption must not be negative");
+  if (voyage.distance < 0) errors.push("distance must not be negative");
+  if (voyage.totalEmissions < 0) errors.push("totalEmissions must not be negative");
+
+  return errors;
+}
+
+export interface VoyageAggregate {
+  year: number;
+  voyageScope: VoyageScope;
+  fuelConsumption: number;
+  distance: number;
+  totalEmissions: number;
+}
+
+/**
+ * Roll a route's voyages up into route totals
+ * A route covers one reporting period and one scope, so mixed voyages are rejected
+ */
+export function aggregateVoyages(
+  voyages: Array<Pick<Voyage, "year" | "voyageScope" | "fuelConsumption" | "distance" | "totalEmissions">>
+): { aggregate?: VoyageAggregate; errors: string[] } {
+  if (voyages.length === 0) return { errors: ["Route has no voyages"] };
+
+  const years = new Set(voyages.map(v => v.year));
+  const scopes = new Set(voyages.map(v => v.voyageScope));
+  const errors: string[] = [];
+
+  if (years.size > 1) errors.push(`Voyages span several reporting periods: ${Array.from(years).join(", ")}`);
+  if (scopes.has(null)) errors.push("Voyages outside FuelEU scope cannot be part of a route");
+  else if (scopes.size > 1) errors.push(`Voyages have different scopes: ${Array.from(scopes).join(", ")}`);
+  if (errors.length > 0) return { errors };
+
+  return {
+    aggregate: {
+      year: voyages[0].year,
+      voyageScope: voyages[0].voyageScope!,
+      fuelConsumption: voyages.reduce((sum, v) => sum + v.fuelConsumption, 0),
+      distance: voyages.reduce((sum, v) => sum + v.distance, 0),
+      totalEmissions: voyages.reduce((sum, v) => sum + v.totalEmissions, 0),
+    },
+    errors,
+  };
+}
+
+/**
+ * Derive port stays from a ship's consecutive voyages
+ * A stay runs from one voyage's arrival to the next departure from the same port
+ */
+export function derivePortStays(
+  voyages: Array<Pick<Voyage, "arrivalPort" | "departurePort" | "arrivalAt" | "departureAt">>,
+  classify: (locode: string) => PortDefinition
+): PortStay[] {
+  const ordered = [...voyages].sort((a, b) => a.departureAt.getTime() - b.departureAt.getTime());
+  const stays: PortStay[] = [];
+
+  for (let i = 0; i < ordered.length - 1; i++) {
+    const inbound = ordered[i];
+    const outbound = ordered[i + 1];
+    if (inbound.arrivalPort !== outbound.departurePort) continue;
+    if (outbound.departureAt <= inbound.arrivalAt) continue;
+
+    const port = classify(inbound.arrivalPort);
+    stays.push({
+      portCode: port.locode,
+      portName: port.name,
+      isEuEea: port.isEuEea,
+      isTenTPort: port.isTenT,
+      arrivalAt: inbound.arrivalAt.toISOString(),
+      departureAt: outbound.departureAt.toISOString(),
+      year: deriveReportingYear(inbound.arrivalAt),
+      berthHours: (outbound.departureAt.getTime() - inbound.arrivalAt.getTime()) / MS_PER_HOUR,
+      voyageScope: port.isEuEea ? "at_berth" : null,
+    });
+  }
+
+  return stays;
+}
@@ -0,0 +1,302 @@
+// Fixture sets - named seed data (demo, regression, empty) loaded through IStorage
+// Sets live in fixtures/ as JSON or YAML and are validated against the insert schemas.
+// Rows reference each other by natural keys (IMO numbers, routeId, company number) and
+// are upserted on those keys, so loading a set twice leaves the data unchanged.
+// Balances change only through the ledger: bank entries and pools go through the
+// banking and pooling workflows, so their rules apply to fixtures as well
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import {
+  insertBankEntrySchema,
+  insertBunkerDeliveryNoteSchema,
+  insertCompanySchema,
+  insertPoolSchema,
+  insertRouteSchema,
+  insertShipCompanyAssignmentSchema,
+  insertShipComplianceSchema,
+  insertShipSchema,
+  insertVoyageSchema,
+  type BankEntry
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { NotFoundError, ValidationError } from "./storage-errors";
+import { calculateComputationDelta } from "./domain/ledger-service";
+
+export const FIXTURES_DIR = path.resolve(import.meta.dirname, "..", "fixtures");
+
+const FIXTURE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const fixtureSetSchema = z.object({
+  description: z.string().optional(),
+  ships: z.array(insertShipSchema).default([]),
+  // The company number is the natural key assignments refer to
+  companies: z.array(insertCompanySchema.extend({ imoCompanyNumber: z.string() })).default([]),
+  assignments: z.array(
+    insertShipCompanyAssignmentSchema.omit({ companyId: true }).extend({ imoCompanyNumber: z.string() })
+  ).default([]),
+  routes: z.array(insertRouteSchema).default([]),
+  voyages: z.array(
+    insertVoyageSchema.omit({ routeId: true }).extend({ routeId: z.string().optional() }) // routeId of the route
+  ).default([]),
+  bunkerDeliveryNotes: z.array(insertBunkerDeliveryNoteSchema).default([]),
+  compliance: z.array(insertShipComplianceSchema).default([]), // Computed CBs, recorded as ledger computations
+  // Applied in order; apply amounts are negative, as stored
+  bankEntries: z.array(insertBankEntrySchema.refine(
+    entry => entry.entryType !== "apply" || (entry.originYear != null && entry.originYear < entry.year),
+    { message: "apply entries need an originYear before their year", path: ["originYear"] }
+  )).default([]),
+  // Members enter at their recorded balance, after the bank entries above
+  pools: z.array(
+    insertPoolSchema.extend({ members: z.array(z.object({ shipId: z.string() })).min(2) })
+  ).default([]),
+});
+
+export type FixtureSet = z.infer<typeof fixtureSetSchema>;
+
+export type FixtureSection = Exclude<keyof FixtureSet, "description">;
+
+export interface FixtureCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+export type FixtureLoadSummary = Record<FixtureSection, FixtureCounts>;
+
+/**
+ * Names of the fixture sets available in the fixtures directory
+ */
+export function listFixtureSets(dir: string = FIXTURES_DIR): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => FIXTURE_EXTENSIONS.includes(path.extname(file)))
+    .map(file => path.basename(file, path.extname(file)))
+    .sort();
+}
+
+/**
+ * Read and validate a named fixture set
+ * Throws ValidationError listing every schema violation in the set
+ */
+export function readFixtureSet(name: string, dir: string = FIXTURES_DIR): FixtureSet {
+  const file = FIXTURE_EXTENSIONS
+    .map(extension => path.join(dir, `${name}${extension}`))
+    .find(candidate => fs.existsSync(candidate));
+  if (!file) {
+    throw new ValidationError(`Unknown fixture set "${name}" - available: ${listFixtureSets(dir).join(", ")}`);
+  }
+
+  const content = fs.readFileSync(file, "utf-8");
+  const raw = path.extname(file) === ".json" ? JSON.parse(content) : YAML.parse(content);
+
+  const result = fixtureSetSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new ValidationError(`Fixture set "${name}" is invalid - ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+function emptySummary(): FixtureLoadSummary {
+  const sections: FixtureSection[] = [
+    "ships", "companies", "assignments", "routes", "voyages",
+    "bunkerDeliveryNotes", "compliance", "bankEntries", "pools",
+  ];
+  return Object.fromEntries(
+    sections.map(section => [section, { created: 0, updated: 0, unchanged: 0 }])
+  ) as FixtureLoadSummary;
+}
+
+// Banking records the period it banks as the origin
+function sameBankEntry(entry: BankEntry, fixture: FixtureSet["bankEntries"][number]): boolean {
+  const entryType = fixture.entryType ?? "bank";
+  return entry.entryType === entryType
+    && entry.amountGco2eq === fixture.amountGco2eq
+    && entry.originYear === (fixture.originYear ?? (entryType === "bank" ? fixture.year : null));
+}
+
+/**
+ * Upsert a fixture set through the storage port
+ * Ships and routes are updated in place; companies, assignments, voyages, BDNs,
+ * bank entries and pools are only created when no matching row exists; computed
+ * balances are corrected with a ledger computation entry when they differ
+ */
+export async function loadFixtureSet(storage: IStorage, fixtures: FixtureSet, name: string): Promise<FixtureLoadSummary> {
+  const summary = emptySummary();
+
+  for (const ship of fixtures.ships) {
+    try {
+      await storage.getShipByImo(ship.imoNumber);
+      await storage.updateShip(ship.imoNumber, ship);
+      summary.ships.updated++;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      await storage.createShip(ship);
+      summary.ships.created++;
+    }
+  }
+
+  const companyIds = new Map<string, number>();
+  for (const company of await storage.getAllCompanies()) {
+    if (company.imoCompanyNumber) companyIds.set(company.imoCompanyNumber, company.id);
+  }
+  for (const company of fixtures.companies) {
+    if (companyIds.has(company.imoCompanyNumber)) {
+      summary.companies.unchanged++;
+      continue;
+    }
+    const created = await storage.createCompany(company);
+    companyIds.set(company.imoCompanyNumber, created.id);
+    summary.companies.created++;
+  }
+
+  for (const { imoCompanyNumber, ...assignment } of fixtures.assignments) {
+    const companyId = companyIds.get(imoCompanyNumber);
+    if (companyId === undefined) {
+      throw new ValidationError(`Assignment of ship ${assignment.shipId} refers to unknown company ${imoCompanyNumber}`);
+    }
+
+    const existing = await storage.getShipAssignments(assignment.shipId);
+    if (existing.some(a => a.companyId === companyId && a.effectiveFrom === assignment.effectiveFrom)) {
+      summary.assignments.unchanged++;
+      continue;
+    }
+    await storage.assignShipToCompany({ ...assignment, companyId });
+    summary.assignments.created++;
+  }
+
+  const routeIds = new Map<string, number>();
+  for (const route of fixtures.routes) {
+    try {
+      const existing = await storage.getRouteByRouteId(route.routeId);
+      const updated = await storage.updateRoute(String(existing.id), route);
+      routeIds.set(route.routeId, updated.id);
+      summary.routes.updated++;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      const created = await storage.createRoute(route);
+      routeIds.set(route.routeId, created.id);
+      summary.routes.created++;
+    }
+  }
+
+  for (const { routeId, ...voyage } of fixtures.voyages) {
+    const existing = await storage.getVoyages(voyage.shipId);
+    if (existing.some(v => v.departureAt.getTime() === voyage.departureAt.getTime() && v.departurePort === voyage.departurePort)) {
+      summary.voyages.unchanged++;
+      continue;
+    }
+
+    let routeKey: number | null = null;
+    if (routeId !== undefined) {
+      routeKey = routeIds.get(routeId) ?? (await storage.getRouteByRouteId(routeId)).id;
+    }
+    await storage.createVoyage({ ...voyage, routeId: routeKey });
+    summary.voyages.created++;
+  }
+
+  const newNotes: FixtureSet["bunkerDeliveryNotes"] = [];
+  for (const bdn of fixtures.bunkerDeliveryNotes) {
+    const existing = await storage.getBunkerDeliveryNotes(bdn.shipId);
+    if (existing.some(note => note.bdnNumber === bdn.bdnNumber)) {
+      summary.bunkerDeliveryNotes.unchanged++;
+    } else {
+      newNotes.push(bdn);
+    }
+  }
+  if (newNotes.length > 0) {
+    await storage.createBunkerDeliveryNotes(newNotes);
+    summary.bunkerDeliveryNotes.created += newNotes.length;
+  }
+
+  // Balances only change through the ledger; a correction entry brings the computed
+  // part of the balance to the fixture value and leaves banking and pooling intact
+  for (const compliance of fixtures.compliance) {
+    const ledger = await storage.getLedgerEntries(compliance.shipId, compliance.year);
+    const delta = calculateComputationDelta(ledger, compliance.cbGco2eq);
+    const computed = ledger.some(entry => entry.entryType === "computation");
+    if (computed && delta === 0) {
+      summary.compliance.unchanged++;
+      continue;
+    }
+
+    await storage.recordComputedBalance({
+      shipId: compliance.shipId,
+      year: compliance.year,
+      computedCb: compliance.cbGco2eq,
+      actor: "seed",
+      reason: `Opening balance from fixture set ${name}`,
+      details: null,
+    });
+    if (computed) summary.compliance.updated++;
+    else summary.compliance.created++;
+  }
+
+  // Bank entries have no natural key; match them as a multiset per ship and year
+  const unmatchedEntries = new Map<string, BankEntry[]>();
+  for (const entry of fixtures.bankEntries) {
+    const key = `${entry.shipId}:${entry.year}`;
+    if (!unmatchedEntries.has(key)) {
+      unmatchedEntries.set(key, await storage.getBankEntries(entry.shipId, entry.year));
+    }
+
+    const candidates = unmatchedEntries.get(key)!;
+    const match = candidates.findIndex(existing => sameBankEntry(existing, entry));
+    if (match >= 0) {
+      candidates.splice(match, 1);
+      summary.bankEntries.unchanged++;
+      continue;
+    }
+
+    const operation = {
+      shipId: entry.shipId,
+      year: entry.year,
+      amount: Math.abs(entry.amountGco2eq),
+      actor: "seed",
+    };
+    switch (entry.entryType ?? "bank") {
+      case "bank":
+        await storage.bankSurplus({ ...operation, reason: `Banked surplus from fixture set ${name}` });
+        break;
+      case "apply":
+        await storage.applyBankedSurplus({ ...operation, reason: `Applied banked surplus from fixture set ${name}` });
+        break;
+      case "borrow":
+        // Fixtures carry no fuel energy to derive the 2% limit from; the other borrowing rules apply
+        await storage.borrowSurplus(
+          { ...operation, reason: `Borrowed advance surplus from fixture set ${name}` },
+          operation.amount
+        );
+        break;
+    }
+    summary.bankEntries.created++;
+  }
+
+  // Pools are identified by year and their members; the allocation is the workflow's
+  const poolKey = (year: number, members: Array<{ shipId: string }>) =>
+    `${year}|${members.map(m => m.shipId).sort().join(",")}`;
+
+  const existingPools = new Set<string>();
+  for (const pool of await storage.getAllPools()) {
+    existingPools.add(poolKey(pool.year, await storage.getPoolMembers(String(pool.id))));
+  }
+  for (const { members, ...pool } of fixtures.pools) {
+    const key = poolKey(pool.year, members);
+    if (existingPools.has(key)) {
+      summary.pools.unchanged++;
+      continue;
+    }
+
+    // A member without a recorded balance enters at zero
+    await storage.createPoolWithMembers(
+      pool.year,
+      members.map(member => ({ shipId: member.shipId, computedCb: 0 })),
+      "seed"
+    );
+    existingPools.add(key);
+    summary.pools.created++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,32 @@
+// Fuel catalogue wiring - defaults plus optional per-deployment overrides
+// Set FUEL_CATALOGUE_PATH to a JSON array of FuelDefinition entries
+import fs from "fs";
+import path from "path";
+import type { FuelDefinition } from "@shared/schema";
+import {
+  createFuelCatalogue,
+  validateFuelDefinition,
+} from "./domain/fuel-catalogue";
+
+import dotenv from "dotenv";
+dotenv.config();
+
+function loadOverrides(): FuelDefinition[] {
+  const overridePath = process.env.FUEL_CATALOGUE_PATH;
+  if (!overridePath) return [];
+
+  const raw = fs.readFileSync(path.resolve(overridePath), "utf-8");
+  const overrides = JSON.parse(raw) as FuelDefinition[];
+  if (!Array.isArray(overrides)) {
+    throw new Error(`FUEL_CATALOGUE_PATH ${overridePath} must contain a JSON array`);
+  }
+
+  const errors = overrides.flatMap(validateFuelDefinition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid fuel catalogue overrides: ${errors.join("; ")}`);
+  }
+
+  return overrides;
+}
+
+export const fuelCatalogue = createFuelCatalogue(loadOverrides());
@@ -1,6 +1,11 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
+import { errorHandler } from "./api-errors";
 import { setupVite, serveStatic, log } from "./vite";
+import { applyMigrations, assertSchemaUpToDate } from "./migrations";
+import { databaseInMemory } from "./db";
+import { storage } from "./storage";
+import { loadFixtureSet, readFixtureSet } from "./fixtures";
 
 const app = express();
 
@@ -47,15 +52,28 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  // Refuse to serve against a database that is missing migrations; the
+  // in-memory adapter has no schema and starts from a fixture set instead,
+  // and an in-memory database is migrated here since no other process can reach it
+  if (process.env.STORAGE_ADAPTER === "memory") {
+    const fixtureSet = process.env.SEED_FIXTURES || "demo";
+    await loadFixtureSet(storage, readFixtureSet(fixtureSet), fixtureSet);
+    log(`🌱 In-memory storage loaded with fixture set "${fixtureSet}"`);
+  } else if (databaseInMemory) {
+    const applied = await applyMigrations();
+    log(`🗄️ In-memory database migrated (${applied.length} migration(s) applied)`);
+  } else {
+    try {
+      await assertSchemaUpToDate();
+    } catch (error) {
+      log(`❌ ${error instanceof Error ? error.message : error}. Run \`npm run db:migrate\` first.`);
+      process.exit(1);
+    }
+  }
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+  const server = await registerRoutes(app);
 
-    res.status(status).json({ message });
-    throw err;
-  });
+  app.use(errorHandler);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -0,0 +1,1263 @@
+// MemStorage - in-memory adapter implementing the storage port
+// Used for local development and tests without a database; mirrors the
+// validation, ordering, constraints and error semantics of DatabaseStorage
+import type {
+  Company,
+  InsertCompany,
+  ShipCompanyAssignment,
+  InsertShipCompanyAssignment,
+  Ship,
+  InsertShip,
+  Route,
+  InsertRoute,
+  RouteFacets,
+  Voyage,
+  InsertVoyage,
+  RouteFuelLine,
+  InsertRouteFuelLine,
+  PortCall,
+  InsertPortCall,
+  ShipEngine,
+  InsertShipEngine,
+  BunkerDeliveryNote,
+  InsertBunkerDeliveryNote,
+  LedgerEntry,
+  InsertLedgerEntry,
+  ShipCompliance,
+  BankEntry,
+  InsertBankEntry,
+  BankBalance,
+  Pool,
+  InsertPool,
+  PoolMember,
+  InsertPoolMember
+} from "@shared/schema";
+import type {
+  BalanceOperation,
+  ComputedBalance,
+  IStorage,
+  PoolAllocation,
+  RouteQuery,
+  RouteQueryResult
+} from "./storage";
+import { StorageError, NotFoundError, ValidationError } from "./storage-errors";
+import { fuelCatalogue } from "./fuels";
+import { isValidImoNumber } from "./domain/ship-service";
+import { assignmentsOverlap } from "./domain/fleet-service";
+import { portReference, InvalidLocodeError } from "./domain/port-reference";
+import {
+  aggregateVoyages,
+  deriveReportingYear,
+  deriveVoyageScope,
+  validateVoyage
+} from "./domain/voyage-service";
+import { validateBdn } from "./domain/bunker-service";
+import { calculateComputationDelta, chainLedgerEntry } from "./domain/ledger-service";
+import {
+  allocateBankedSurplus,
+  calculateBorrowingRepayment,
+  validateBorrowing
+} from "./domain/banking-service";
+import { allocatePoolBalances, validatePool } from "./domain/pooling-service";
+
+interface Tables {
+  companies: Company[];
+  shipCompanyAssignments: ShipCompanyAssignment[];
+  ships: Ship[];
+  routes: Route[];
+  voyages: Voyage[];
+  routeFuelLines: RouteFuelLine[];
+  portCalls: PortCall[];
+  shipEngines: ShipEngine[];
+  bunkerDeliveryNotes: BunkerDeliveryNote[];
+  complianceLedger: LedgerEntry[];
+  shipCompliance: ShipCompliance[];
+  bankEntries: BankEntry[];
+  pools: Pool[];
+  poolMembers: PoolMember[];
+}
+
+type Row<K extends keyof Tables> = Tables[K][number];
+
+const emptyTables = (): Tables => ({
+  companies: [],
+  shipCompanyAssignments: [],
+  ships: [],
+  routes: [],
+  voyages: [],
+  routeFuelLines: [],
+  portCalls: [],
+  shipEngines: [],
+  bunkerDeliveryNotes: [],
+  complianceLedger: [],
+  shipCompliance: [],
+  bankEntries: [],
+  pools: [],
+  poolMembers: [],
+});
+
+// Rows are handed out as copies so callers cannot change stored state
+const copy = <T extends object>(rows: T[]): T[] => rows.map(row => ({ ...row }));
+
+// Sort by key functions in priority order; negate numeric keys for descending order
+function orderBy<T>(rows: T[], ...keys: Array<(row: T) => string | number>): T[] {
+  return [...rows].sort((a, b) => {
+    for (const key of keys) {
+      const left = key(a);
+      const right = key(b);
+      if (left < right) return -1;
+      if (left > right) return 1;
+    }
+    return 0;
+  });
+}
+
+// Drizzle's .set() skips undefined values; do the same
+function assignDefined<T extends object>(row: T, updates: object): T {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) (row as Record<string, unknown>)[key] = value;
+  }
+  return row;
+}
+
+// Stand-in for a database constraint violation; wrapped into StorageError like a driver error
+class ConstraintViolation extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConstraintViolation';
+  }
+}
+
+export class MemStorage implements IStorage {
+  private tables: Tables = emptyTables();
+  private sequences = new Map<keyof Tables, number>();
+
+  private insert<K extends keyof Tables>(table: K, values: Omit<Row<K>, "id">): Row<K> {
+    const id = (this.sequences.get(table) ?? 0) + 1;
+    this.sequences.set(table, id);
+
+    const row = { ...values, id } as Row<K>;
+    (this.tables[table] as Row<K>[]).push(row);
+    return row;
+  }
+
+  // All-or-nothing like db.transaction: tables are restored if the work throws.
+  // Sequences are not rolled back, matching Postgres serials
+  private transaction<T>(work: () => T): T {
+    const snapshot = structuredClone(this.tables);
+    try {
+      return work();
+    } catch (error) {
+      this.tables = snapshot;
+      throw error;
+    }
+  }
+
+  private requireShipRow(imoNumber: string): void {
+    if (!this.tables.ships.some(ship => ship.imoNumber === imoNumber)) {
+      throw new ConstraintViolation(`Foreign key violation: ship ${imoNumber} does not exist`);
+    }
+  }
+
+  private requireRouteRow(id: number): void {
+    if (!this.tables.routes.some(route => route.id === id)) {
+      throw new ConstraintViolation(`Foreign key violation: route ${id} does not exist`);
+    }
+  }
+
+  // Companies
+  async getAllCompanies(): Promise<Company[]> {
+    return copy(orderBy(this.tables.companies, c => c.name));
+  }
+
+  async getCompanyById(id: number): Promise<Company> {
+    const company = this.tables.companies.find(c => c.id === id);
+    if (!company) {
+      throw new NotFoundError('Company', String(id));
+    }
+    return { ...company };
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    try {
+      if (!insertCompany.name?.trim()) {
+        throw new ValidationError('Company name is required');
+      }
+      if (insertCompany.imoCompanyNumber && !/^\d{7}$/.test(insertCompany.imoCompanyNumber)) {
+        throw new ValidationError(`Invalid IMO company number ${insertCompany.imoCompanyNumber}`);
+      }
+      if (insertCompany.imoCompanyNumber &&
+          this.tables.companies.some(c => c.imoCompanyNumber === insertCompany.imoCompanyNumber)) {
+        throw new ConstraintViolation(`Unique violation: company ${insertCompany.imoCompanyNumber}`);
+      }
+
+      const company = this.insert("companies", {
+        name: insertCompany.name,
+        imoCompanyNumber: insertCompany.imoCompanyNumber ?? null,
+        country: insertCompany.country ?? null,
+        createdAt: new Date(),
+      });
+      return { ...company };
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError('Failed to create company', error);
+    }
+  }
+
+  async getCompanyAssignments(companyId: number): Promise<ShipCompanyAssignment[]> {
+    return copy(orderBy(
+      this.tables.shipCompanyAssignments.filter(a => a.companyId === companyId),
+      a => a.shipId,
+      a => a.effectiveFrom
+    ));
+  }
+
+  async getShipAssignments(shipId: string): Promise<ShipCompanyAssignment[]> {
+    return copy(orderBy(
+      this.tables.shipCompanyAssignments.filter(a => a.shipId === shipId),
+      a => a.effectiveFrom
+    ));
+  }
+
+  async assignShipToCompany(assignment: InsertShipCompanyAssignment): Promise<ShipCompanyAssignment> {
+    try {
+      const effectiveTo = assignment.effectiveTo ?? null;
+      if (effectiveTo !== null && effectiveTo <= assignment.effectiveFrom) {
+        throw new ValidationError('effectiveTo must be after effectiveFrom');
+      }
+
+      await this.getShipByImo(assignment.shipId);
+      await this.getCompanyById(assignment.companyId);
+
+      return this.transaction(() => {
+        for (const current of this.tables.shipCompanyAssignments.filter(a => a.shipId === assignment.shipId)) {
+          // An open-ended assignment that started earlier is closed at the handover date
+          if (current.effectiveTo === null && current.effectiveFrom < assignment.effectiveFrom) {
+            current.effectiveTo = assignment.effectiveFrom;
+            continue;
+          }
+
+          if (assignmentsOverlap(current, { ...assignment, effectiveTo })) {
+            throw new ValidationError(
+              `Ship ${assignment.shipId} is already assigned to company ${current.companyId} from ${current.effectiveFrom}`
+            );
+          }
+        }
+
+        const created = this.insert("shipCompanyAssignments", {
+          shipId: assignment.shipId,
+          companyId: assignment.companyId,
+          effectiveFrom: assignment.effectiveFrom,
+          effectiveTo,
+          createdAt: new Date(),
+        });
+        return { ...created };
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to assign ship ${assignment.shipId} to company ${assignment.companyId}`, error);
+    }
+  }
+
+  // Ships
+  async getAllShips(): Promise<Ship[]> {
+    return copy(orderBy(this.tables.ships, s => s.name));
+  }
+
+  async getShipByImo(imoNumber: string): Promise<Ship> {
+    const ship = this.tables.ships.find(s => s.imoNumber === imoNumber);
+    if (!ship) {
+      throw new NotFoundError('Ship', imoNumber);
+    }
+    return { ...ship };
+  }
+
+  async createShip(insertShip: InsertShip): Promise<Ship> {
+    try {
+      if (!isValidImoNumber(insertShip.imoNumber ?? '')) {
+        throw new ValidationError(`Invalid IMO number ${insertShip.imoNumber}`);
+      }
+      if (!insertShip.name?.trim()) {
+        throw new ValidationError('Ship name is required');
+      }
+      if (this.tables.ships.some(s => s.imoNumber === insertShip.imoNumber)) {
+        throw new ValidationError(`Ship with IMO ${insertShip.imoNumber} already exists`);
+      }
+
+      const ship = this.insert("ships", {
+        ...insertShip,
+        iceClass: insertShip.iceClass ?? null,
+        managingCompany: insertShip.managingCompany ?? null,
+        createdAt: new Date(),
+      });
+      return { ...ship };
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError('Failed to create ship', error);
+    }
+  }
+
+  async updateShip(imoNumber: string, updates: Partial<InsertShip>): Promise<Ship> {
+    if (updates.imoNumber !== undefined && updates.imoNumber !== imoNumber) {
+      throw new ValidationError('IMO number cannot be changed');
+    }
+
+    const ship = this.tables.ships.find(s => s.imoNumber === imoNumber);
+    if (!ship) {
+      throw new NotFoundError('Ship', imoNumber);
+    }
+    return { ...assignDefined(ship, updates) };
+  }
+
+  async getRoutesByShip(shipId: string, year?: number): Promise<Route[]> {
+    return copy(orderBy(
+      this.tables.routes.filter(r => r.shipId === shipId && (year === undefined || r.year === year)),
+      r => r.year,
+      r => r.routeId
+    ));
+  }
+
+  // Routes
+  async getAllRoutes(): Promise<Route[]> {
+    return copy(orderBy(this.tables.routes, r => r.year, r => r.routeId));
+  }
+
+  async queryRoutes(query: RouteQuery): Promise<RouteQueryResult> {
+    const matching = this.tables.routes.filter(r =>
+      (query.shipId === undefined || r.shipId === query.shipId) &&
+      (query.vesselType === undefined || r.vesselType === query.vesselType) &&
+      (query.fuelType === undefined || r.fuelType === query.fuelType) &&
+      (query.yearFrom === undefined || r.year >= query.yearFrom) &&
+      (query.yearTo === undefined || r.year <= query.yearTo) &&
+      (query.intensityMin === undefined || r.ghgIntensity >= query.intensityMin) &&
+      (query.intensityMax === undefined || r.ghgIntensity <= query.intensityMax)
+    );
+
+    const sorted = orderBy(matching, r => r[query.sort], r => r.id);
+    if (query.order === "desc") sorted.reverse();
+
+    // Rows strictly after the cursor in (column, id) order
+    const after = query.after;
+    const remaining = after
+      ? sorted.filter(r => {
+          const value = r[query.sort];
+          if (value === after.value) return query.order === "desc" ? r.id < after.id : r.id > after.id;
+          return query.order === "desc" ? value < after.value : value > after.value;
+        })
+      : sorted;
+
+    return {
+      routes: copy(remaining.slice(0, query.limit)),
+      total: matching.length,
+      hasMore: remaining.length > query.limit,
+    };
+  }
+
+  async getRouteFacets(): Promise<RouteFacets> {
+    const distinct = <T extends string | number>(values: T[]) =>
+      Array.from(new Set(values)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return {
+      vesselTypes: distinct(this.tables.routes.map(r => r.vesselType)),
+      fuelTypes: distinct(this.tables.routes.map(r => r.fuelType)),
+      years: distinct(this.tables.routes.map(r => r.year)),
+    };
+  }
+
+  async getRouteById(id: string): Promise<Route> {
+    const route = this.tables.routes.find(r => r.id === Number(id));
+    if (!route) {
+      throw new NotFoundError('Route', id);
+    }
+    return { ...route };
+  }
+
+  async getRouteByRouteId(routeId: string): Promise<Route> {
+    const route = this.tables.routes.find(r => r.routeId === routeId);
+    if (!route) {
+      throw new NotFoundError('Route', routeId);
+    }
+    return { ...route };
+  }
+
+  async createRoute(insertRoute: InsertRoute): Promise<Route> {
+    try {
+      // Validate required fields
+      if (!insertRoute.routeId?.trim()) {
+        throw new ValidationError('Route ID is required');
+      }
+      if (!insertRoute.year || insertRoute.year < 2000 || insertRoute.year > 2100) {
+        throw new ValidationError('Valid year is required (2000-2100)');
+      }
+      if (!fuelCatalogue.find(insertRoute.fuelType)) {
+        throw new ValidationError(`Unknown fuel type ${insertRoute.fuelType}`);
+      }
+      if (this.tables.routes.some(r => r.routeId === insertRoute.routeId)) {
+        throw new ValidationError(`Route ${insertRoute.routeId} already exists`);
+      }
+      if (insertRoute.shipId) this.requireShipRow(insertRoute.shipId);
+
+      const route = this.insert("routes", {
+        ...insertRoute,
+        shipId: insertRoute.shipId ?? null,
+        voyageScope: insertRoute.voyageScope ?? "intra_eu",
+        isBaseline: insertRoute.isBaseline ?? false,
+      });
+      return { ...route };
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError('Failed to create route', error);
+    }
+  }
+
+  async updateRoute(id: string, updates: Partial<InsertRoute>): Promise<Route> {
+    try {
+      if (updates.fuelType !== undefined && !fuelCatalogue.find(updates.fuelType)) {
+        throw new ValidationError(`Unknown fuel type ${updates.fuelType}`);
+      }
+
+      const route = this.tables.routes.find(r => r.id === Number(id));
+      if (!route) {
+        throw new NotFoundError('Route', id);
+      }
+      if (updates.routeId !== undefined &&
+          this.tables.routes.some(r => r.routeId === updates.routeId && r.id !== route.id)) {
+        throw new ValidationError(`Route ${updates.routeId} already exists`);
+      }
+      if (updates.shipId) this.requireShipRow(updates.shipId);
+
+      return { ...assignDefined(route, updates) };
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
+      throw new StorageError(`Failed to update route with ID ${id}`, error);
+    }
+  }
+
+  async deleteRoute(id: string): Promise<void> {
+    const route = this.tables.routes.find(r => r.id === Number(id));
+    if (!route) {
+      throw new NotFoundError('Route', id);
+    }
+
+    // Records derived from the route's ship and period would lose their source
+    const references = route.shipId ? this.routeReferences(route.shipId, route.year) : [];
+    if (references.length > 0) {
+      throw new ValidationError(
+        `Route ${route.routeId} is referenced by compliance records and cannot be deleted`,
+        references
+      );
+    }
+
+    // Voyages are detached and fuel lines removed, as the foreign keys specify
+    this.tables.routes = this.tables.routes.filter(r => r.id !== route.id);
+    this.tables.routeFuelLines = this.tables.routeFuelLines.filter(l => l.routeId !== route.id);
+    for (const voyage of this.tables.voyages) {
+      if (voyage.routeId === route.id) voyage.routeId = null;
+    }
+  }
+
+  async setBaseline(routeId: string): Promise<void> {
+    const baseline = this.tables.routes.find(r => r.routeId === routeId);
+    if (!baseline) {
+      throw new NotFoundError('Route', routeId);
+    }
+
+    for (const route of this.tables.routes) {
+      route.isBaseline = route === baseline;
+    }
+  }
+
+  async getBaselineRoute(): Promise<Route | undefined> {
+    const route = this.tables.routes.find(r => r.isBaseline);
+    return route ? { ...route } : undefined;
+  }
+
+  async getRoutesByYear(year: number): Promise<Route[]> {
+    return copy(orderBy(this.tables.routes.filter(r => r.year === year), r => r.routeId));
+  }
+
+  // Voyages
+  async getVoyages(shipId: string, year?: number): Promise<Voyage[]> {
+    return copy(orderBy(
+      this.tables.voyages.filter(v => v.shipId === shipId && (year === undefined || v.year === year)),
+      v => v.departureAt.getTime()
+    ));
+  }
+
+  async getRouteVoyages(routeId: number): Promise<Voyage[]> {
+    return copy(orderBy(
+      this.tables.voyages.filter(v => v.routeId === routeId),
+      v => v.departureAt.getTime()
+    ));
+  }
+
+  async getVoyage(id: number): Promise<Voyage> {
+    const voyage = this.tables.voyages.find(v => v.id === id);
+    if (!voyage) {
+      throw new NotFoundError('Voyage', String(id));
+    }
+    return { ...voyage };
+  }
+
+  async createVoyage(insertVoyage: InsertVoyage): Promise<Voyage> {
+    try {
+      const errors = validateVoyage(insertVoyage);
+      if (errors.length > 0) {
+        throw new ValidationError(errors.join('; '));
+      }
+
+      const departure = portReference.classify(insertVoyage.departurePort);
+      const arrival = portReference.classify(insertVoyage.arrivalPort);
+
+      await this.getShipByImo(insertVoyage.shipId);
+
+      return this.transaction(() => {
+        const routeId = insertVoyage.routeId ?? null;
+        if (routeId !== null) this.requireRouteRow(routeId);
+
+        const voyage = this.insert("voyages", {
+          ...insertVoyage,
+          routeId,
+          departurePort: departure.locode,
+          arrivalPort: arrival.locode,
+          voyageScope: deriveVoyageScope(departure, arrival),
+          year: deriveReportingYear(insertVoyage.arrivalAt),
+          createdAt: new Date(),
+        });
+
+        if (voyage.routeId !== null) {
+          this.syncRouteWithVoyages(voyage.routeId, voyage.shipId);
+        }
+
+        return { ...voyage };
+      });
+    } catch (error) {
+      if (error instanceof InvalidLocodeError) throw new ValidationError(error.message);
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to create voyage', error);
+    }
+  }
+
+  async deleteVoyage(id: number): Promise<void> {
+    this.transaction(() => {
+      const deleted = this.tables.voyages.find(v => v.id === id);
+      if (!deleted) {
+        throw new NotFoundError('Voyage', String(id));
+      }
+
+      this.tables.voyages = this.tables.voyages.filter(v => v.id !== id);
+      if (deleted.routeId !== null) {
+        this.syncRouteWithVoyages(deleted.routeId, deleted.shipId);
+      }
+    });
+  }
+
+  // Recompute a route's totals, period and scope from its voyages
+  private syncRouteWithVoyages(routeId: number, shipId: string): void {
+    const route = this.tables.routes.find(r => r.id === routeId);
+    if (!route) {
+      throw new NotFoundError('Route', String(routeId));
+    }
+    if (route.shipId !== null && route.shipId !== shipId) {
+      throw new ValidationError(`Route ${route.routeId} belongs to ship ${route.shipId}`);
+    }
+
+    const routeVoyages = this.tables.voyages.filter(v => v.routeId === routeId);
+    if (routeVoyages.length === 0) return;
+
+    const { aggregate, errors } = aggregateVoyages(routeVoyages);
+    if (!aggregate) {
+      throw new ValidationError(errors.join('; '));
+    }
+
+    Object.assign(route, aggregate, { shipId });
+  }
+
+  // Route Fuel Lines
+  async getRouteFuelLines(routeId: number): Promise<RouteFuelLine[]> {
+    return copy(orderBy(this.tables.routeFuelLines.filter(l => l.routeId === routeId), l => l.id));
+  }
+
+  async replaceRouteFuelLines(
+    routeId: number,
+    lines: InsertRouteFuelLine[],
+    routeUpdates?: Partial<InsertRoute>
+  ): Promise<RouteFuelLine[]> {
+    try {
+      for (const line of lines) {
+        if (!fuelCatalogue.find(line.fuelType)) {
+          throw new ValidationError(`Unknown fuel type ${line.fuelType}`);
+        }
+        if (!(line.massTonnes > 0)) {
+          throw new ValidationError('Fuel mass must be positive');
+        }
+      }
+
+      return this.transaction(() => {
+        // Replace the route's lines as a whole so totals stay consistent
+        this.tables.routeFuelLines = this.tables.routeFuelLines.filter(l => l.routeId !== routeId);
+        if (lines.length > 0) this.requireRouteRow(routeId);
+
+        const inserted = lines.map(line => this.insert("routeFuelLines", {
+          ...line,
+          routeId,
+          consumer: line.consumer ?? null,
+          createdAt: new Date(),
+        }));
+
+        if (routeUpdates) {
+          const route = this.tables.routes.find(r => r.id === routeId);
+          if (!route) {
+            throw new NotFoundError('Route', String(routeId));
+          }
+          assignDefined(route, routeUpdates);
+        }
+
+        return copy(inserted);
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to replace fuel lines for route ${routeId}`, error);
+    }
+  }
+
+  // Port Calls
+  async getPortCalls(shipId: string, year: number): Promise<PortCall[]> {
+    return copy(orderBy(
+      this.tables.portCalls.filter(p => p.shipId === shipId && p.year === year),
+      p => p.createdAt.getTime()
+    ));
+  }
+
+  async createPortCall(portCall: InsertPortCall): Promise<PortCall> {
+    if (!portCall.shipId?.trim()) {
+      throw new ValidationError('Ship ID is required');
+    }
+    if (!portCall.year || portCall.year < 2000 || portCall.year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+    if (!portCall.portCode?.trim()) {
+      throw new ValidationError('Port code is required');
+    }
+    if (!(portCall.berthHours >= 0)) {
+      throw new ValidationError('Berth duration must be zero or more hours');
+    }
+    if (!(portCall.electricalDemandKw >= 0)) {
+      throw new ValidationError('Electrical demand must be zero or more kW');
+    }
+
+    await this.getShipByImo(portCall.shipId);
+
+    const created = this.insert("portCalls", {
+      ...portCall,
+      isTenTPort: portCall.isTenTPort ?? true,
+      opsUsed: portCall.opsUsed ?? false,
+      exemptionReason: portCall.exemptionReason ?? null,
+      createdAt: new Date(),
+    });
+    return { ...created };
+  }
+
+  async deletePortCall(id: number): Promise<void> {
+    if (!this.tables.portCalls.some(p => p.id === id)) {
+      throw new NotFoundError('Port call', String(id));
+    }
+    this.tables.portCalls = this.tables.portCalls.filter(p => p.id !== id);
+  }
+
+  // Ship Engines
+  async getShipEngines(shipId: string): Promise<ShipEngine[]> {
+    return copy(orderBy(this.tables.shipEngines.filter(e => e.shipId === shipId), e => e.name));
+  }
+
+  async createShipEngine(engine: InsertShipEngine): Promise<ShipEngine> {
+    if (!engine.shipId?.trim()) {
+      throw new ValidationError('Ship ID is required');
+    }
+    if (!engine.name?.trim()) {
+      throw new ValidationError('Engine name is required');
+    }
+
+    await this.getShipByImo(engine.shipId);
+
+    const existing = await this.getShipEngines(engine.shipId);
+    if (existing.some(e => e.name.trim().toLowerCase() === engine.name.trim().toLowerCase())) {
+      throw new ValidationError(`Engine ${engine.name} is already registered for ship ${engine.shipId}`);
+    }
+
+    const created = this.insert("shipEngines", {
+      ...engine,
+      powerKw: engine.powerKw ?? null,
+      createdAt: new Date(),
+    });
+    return { ...created };
+  }
+
+  async deleteShipEngine(id: number): Promise<void> {
+    if (!this.tables.shipEngines.some(e => e.id === id)) {
+      throw new NotFoundError('Ship engine', String(id));
+    }
+    this.tables.shipEngines = this.tables.shipEngines.filter(e => e.id !== id);
+  }
+
+  // Bunker Delivery Notes
+  async getBunkerDeliveryNotes(shipId?: string, year?: number): Promise<BunkerDeliveryNote[]> {
+    return copy(orderBy(
+      this.tables.bunkerDeliveryNotes.filter(n =>
+        (shipId === undefined || n.shipId === shipId) &&
+        (year === undefined || (n.deliveryDate >= `${year}-01-01` && n.deliveryDate <= `${year}-12-31`))
+      ),
+      n => n.shipId,
+      n => n.deliveryDate
+    ));
+  }
+
+  async createBunkerDeliveryNotes(notes: InsertBunkerDeliveryNote[]): Promise<BunkerDeliveryNote[]> {
+    try {
+      const errors: string[] = [];
+      const seen = new Set<string>();
+
+      for (const note of notes) {
+        errors.push(...validateBdn(note));
+
+        const fuel = fuelCatalogue.find(note.fuelType);
+        if (!fuel) errors.push(`BDN ${note.bdnNumber}: unknown fuel type ${note.fuelType}`);
+        else note.fuelType = fuel.name;
+
+        try {
+          note.portCode = portReference.classify(note.portCode).locode;
+        } catch (error) {
+          if (!(error instanceof InvalidLocodeError)) throw error;
+          errors.push(`BDN ${note.bdnNumber}: ${error.message}`);
+        }
+
+        const key = `${note.shipId}/${note.bdnNumber}`;
+        if (seen.has(key)) errors.push(`BDN ${note.bdnNumber} appears more than once for ship ${note.shipId}`);
+        seen.add(key);
+      }
+
+      if (errors.length > 0) {
+        throw new ValidationError(errors.join('; '));
+      }
+      if (notes.length === 0) return [];
+
+      for (const shipId of Array.from(new Set(notes.map(note => note.shipId)))) {
+        await this.getShipByImo(shipId);
+      }
+
+      return this.transaction(() => {
+        const duplicates = this.tables.bunkerDeliveryNotes.filter(e => seen.has(`${e.shipId}/${e.bdnNumber}`));
+        if (duplicates.length > 0) {
+          throw new ValidationError(
+            `BDNs already recorded: ${duplicates.map(d => d.bdnNumber).join(', ')}`
+          );
+        }
+
+        return copy(notes.map(note => this.insert("bunkerDeliveryNotes", {
+          ...note,
+          sustainabilityCertificate: note.sustainabilityCertificate ?? null,
+          createdAt: new Date(),
+        })));
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to record bunker delivery notes', error);
+    }
+  }
+
+  async deleteBunkerDeliveryNote(id: number): Promise<void> {
+    if (!this.tables.bunkerDeliveryNotes.some(n => n.id === id)) {
+      throw new NotFoundError('Bunker delivery note', String(id));
+    }
+    this.tables.bunkerDeliveryNotes = this.tables.bunkerDeliveryNotes.filter(n => n.id !== id);
+  }
+
+  // Ship Compliance
+  async getShipCompliance(shipId: string, year: number): Promise<ShipCompliance | undefined> {
+    const compliance = this.tables.shipCompliance.find(c => c.shipId === shipId && c.year === year);
+    return compliance ? { ...compliance } : undefined;
+  }
+
+  async getShipComplianceHistory(shipId: string, limit: number = 10): Promise<ShipCompliance[]> {
+    return copy(orderBy(
+      this.tables.shipCompliance.filter(c => c.shipId === shipId),
+      c => -c.year,
+      c => -c.createdAt.getTime()
+    ).slice(0, limit));
+  }
+
+  // Compliance Ledger
+  async getLedgerEntries(shipId: string, year?: number): Promise<LedgerEntry[]> {
+    return copy(orderBy(
+      this.tables.complianceLedger.filter(e => e.shipId === shipId && (year === undefined || e.year === year)),
+      e => e.year,
+      e => e.id
+    ));
+  }
+
+  async appendLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry> {
+    return this.transaction(() => this.insertLedgerEntry(entry));
+  }
+
+  // Chain an entry onto the ship's ledger and update the CB projection
+  private insertLedgerEntry(entry: InsertLedgerEntry): LedgerEntry {
+    if (!entry.shipId?.trim()) {
+      throw new ValidationError('Ship ID is required');
+    }
+    if (!entry.year || entry.year < 2000 || entry.year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+    if (!entry.actor?.trim()) {
+      throw new ValidationError('Ledger entries require an actor');
+    }
+    if (!entry.reason?.trim()) {
+      throw new ValidationError('Ledger entries require a reason');
+    }
+
+    const chain = this.tables.complianceLedger.filter(e => e.shipId === entry.shipId && e.year === entry.year);
+    const appended = this.insert("complianceLedger", {
+      ...entry,
+      reference: entry.reference ?? null,
+      details: entry.details ?? null,
+      ...chainLedgerEntry(chain[chain.length - 1], entry.amountGco2eq),
+      createdAt: new Date(),
+    });
+
+    // Keep the per-year CB projection in step with the ledger
+    const projection = this.tables.shipCompliance.find(c => c.shipId === entry.shipId && c.year === entry.year);
+    if (projection) {
+      projection.cbGco2eq = appended.cbAfter;
+    } else {
+      this.insert("shipCompliance", {
+        shipId: entry.shipId,
+        year: entry.year,
+        cbGco2eq: appended.cbAfter,
+        createdAt: new Date(),
+      });
+    }
+
+    return { ...appended };
+  }
+
+  // Bank Entries
+  async getBankEntries(shipId: string, year: number): Promise<BankEntry[]> {
+    return copy(orderBy(
+      this.tables.bankEntries.filter(e => e.shipId === shipId && e.year === year),
+      e => -e.createdAt.getTime(),
+      e => -e.id
+    ));
+  }
+
+  async getBankEntryById(id: string): Promise<BankEntry> {
+    const entry = this.tables.bankEntries.find(e => e.id === Number(id));
+    if (!entry) {
+      throw new NotFoundError('Bank entry', id);
+    }
+    return { ...entry };
+  }
+
+  async createBankEntry(entry: InsertBankEntry): Promise<BankEntry> {
+    if (!entry.shipId?.trim()) {
+      throw new ValidationError('Ship ID is required');
+    }
+    if (!entry.year || entry.year < 2000 || entry.year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+
+    const created = this.insert("bankEntries", {
+      ...entry,
+      entryType: entry.entryType ?? "bank",
+      originYear: entry.originYear ?? null,
+      createdAt: new Date(),
+    });
+    return { ...created };
+  }
+
+  async updateBankEntry(id: string, updates: Partial<InsertBankEntry>): Promise<BankEntry> {
+    const entry = this.tables.bankEntries.find(e => e.id === Number(id));
+    if (!entry) {
+      throw new NotFoundError('Bank entry', id);
+    }
+    return { ...assignDefined(entry, updates) };
+  }
+
+  async deleteBankEntry(id: string): Promise<void> {
+    if (!this.tables.bankEntries.some(e => e.id === Number(id))) {
+      throw new NotFoundError('Bank entry', id);
+    }
+    this.tables.bankEntries = this.tables.bankEntries.filter(e => e.id !== Number(id));
+  }
+
+  async getTotalBanked(shipId: string, year: number): Promise<number> {
+    return this.tables.bankEntries
+      .filter(e => e.shipId === shipId && e.year === year && (e.entryType === "bank" || e.entryType === "apply"))
+      .reduce((sum, e) => sum + e.amountGco2eq, 0);
+  }
+
+  async getTotalBorrowed(shipId: string, year: number): Promise<number> {
+    return this.totalBorrowed(shipId, year);
+  }
+
+  private totalBorrowed(shipId: string, year: number): number {
+    return this.tables.bankEntries
+      .filter(e => e.shipId === shipId && e.year === year && e.entryType === "borrow")
+      .reduce((sum, e) => sum + e.amountGco2eq, 0);
+  }
+
+  async getBankSummary(shipId: string, startYear: number, endYear: number): Promise<{ year: number; total: number }[]> {
+    const totals = new Map<number, number>();
+    for (const entry of this.tables.bankEntries) {
+      if (entry.shipId !== shipId || entry.entryType === "borrow") continue;
+      if (entry.year < startYear || entry.year > endYear) continue;
+      totals.set(entry.year, (totals.get(entry.year) ?? 0) + entry.amountGco2eq);
+    }
+
+    return orderBy(Array.from(totals.keys()), year => year).map(year => ({ year, total: totals.get(year)! }));
+  }
+
+  async getBankBalances(shipId: string): Promise<BankBalance[]> {
+    return this.bankBalances(shipId);
+  }
+
+  private bankBalances(shipId: string): BankBalance[] {
+    // Apply entries carry the origin year they drew from; bank entries originate in their own year
+    const balances = new Map<number, { banked: number; applied: number }>();
+    for (const entry of this.tables.bankEntries) {
+      if (entry.shipId !== shipId || entry.entryType === "borrow") continue;
+
+      const originYear = entry.originYear ?? entry.year;
+      const balance = balances.get(originYear) ?? { banked: 0, applied: 0 };
+      if (entry.entryType === "bank") balance.banked += entry.amountGco2eq;
+      else balance.applied -= entry.amountGco2eq;
+      balances.set(originYear, balance);
+    }
+
+    return orderBy(Array.from(balances.keys()), year => year).map(originYear => {
+      const { banked, applied } = balances.get(originYear)!;
+      return { originYear, banked, applied, available: banked - applied };
+    });
+  }
+
+  // Pools
+  async createPool(pool: InsertPool): Promise<Pool> {
+    if (!pool.year || pool.year < 2000 || pool.year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+
+    const created = this.insert("pools", { ...pool, createdAt: new Date() });
+    return { ...created };
+  }
+
+  async getPoolById(id: string): Promise<Pool> {
+    const pool = this.tables.pools.find(p => p.id === Number(id));
+    if (!pool) {
+      throw new NotFoundError('Pool', id);
+    }
+    return { ...pool };
+  }
+
+  async getAllPools(): Promise<Pool[]> {
+    return copy(orderBy(this.tables.pools, p => p.year, p => p.createdAt.getTime()));
+  }
+
+  async updatePool(id: string, updates: Partial<InsertPool>): Promise<Pool> {
+    const pool = this.tables.pools.find(p => p.id === Number(id));
+    if (!pool) {
+      throw new NotFoundError('Pool', id);
+    }
+    return { ...assignDefined(pool, updates) };
+  }
+
+  async deletePool(id: string): Promise<void> {
+    if (!this.tables.pools.some(p => p.id === Number(id))) {
+      throw new NotFoundError('Pool', id);
+    }
+
+    // Pool members go with the pool (ON DELETE CASCADE)
+    this.tables.pools = this.tables.pools.filter(p => p.id !== Number(id));
+    this.tables.poolMembers = this.tables.poolMembers.filter(m => m.poolId !== Number(id));
+  }
+
+  async createPoolMember(member: InsertPoolMember): Promise<PoolMember> {
+    try {
+      if (!member.poolId) {
+        throw new ValidationError('Pool ID is required');
+      }
+      if (!member.shipId?.trim()) {
+        throw new ValidationError('Ship ID is required');
+      }
+
+      // Check if pool exists
+      await this.getPoolById(String(member.poolId));
+
+      if (this.tables.poolMembers.some(m => m.poolId === member.poolId && m.shipId === member.shipId)) {
+        throw new ConstraintViolation(`Unique violation: ship ${member.shipId} in pool ${member.poolId}`);
+      }
+
+      const created = this.insert("poolMembers", member);
+      return { ...created };
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to create pool member', error);
+    }
+  }
+
+  async getPoolMembers(poolId: string): Promise<PoolMember[]> {
+    return copy(orderBy(this.tables.poolMembers.filter(m => m.poolId === Number(poolId)), m => m.id));
+  }
+
+  async getPoolMemberById(id: string): Promise<PoolMember> {
+    const member = this.tables.poolMembers.find(m => m.id === Number(id));
+    if (!member) {
+      throw new NotFoundError('Pool member', id);
+    }
+    return { ...member };
+  }
+
+  async removePoolMember(id: string): Promise<void> {
+    if (!this.tables.poolMembers.some(m => m.id === Number(id))) {
+      throw new NotFoundError('Pool member', id);
+    }
+    this.tables.poolMembers = this.tables.poolMembers.filter(m => m.id !== Number(id));
+  }
+
+  async getPoolsByShip(shipId: string): Promise<Pool[]> {
+    const poolIds = new Set(this.tables.poolMembers.filter(m => m.shipId === shipId).map(m => m.poolId));
+    return copy(orderBy(
+      this.tables.pools.filter(p => poolIds.has(p.id)),
+      p => p.year,
+      p => p.createdAt.getTime()
+    ));
+  }
+
+  // Banking and pooling workflows - synchronous inside transaction(), so no other
+  // request can interleave; a throw restores the tables
+  async bankSurplus(operation: BalanceOperation): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    return this.transaction(() => {
+      this.requireShips([shipId]);
+
+      const currentCB = this.tables.shipCompliance.find(c => c.shipId === shipId && c.year === year)?.cbGco2eq || 0;
+      if (currentCB <= 0) {
+        throw new ValidationError('Cannot bank surplus when CB <= 0');
+      }
+      if (amount > currentCB) {
+        throw new ValidationError('Amount exceeds available surplus');
+      }
+
+      const entry = this.insert("bankEntries", {
+        shipId,
+        year,
+        entryType: "bank",
+        originYear: year,
+        amountGco2eq: amount,
+        createdAt: new Date(),
+      });
+
+      const ledgerEntry = this.insertLedgerEntry({
+        shipId,
+        year,
+        entryType: "bank",
+        amountGco2eq: -amount,
+        actor: operation.actor,
+        reason: operation.reason,
+        reference: `bank_entry:${entry.id}`,
+      });
+
+      return { entry: { ...entry }, ledgerEntry };
+    });
+  }
+
+  async applyBankedSurplus(operation: BalanceOperation): Promise<{ entries: BankEntry[]; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    return this.transaction(() => {
+      this.requireShips([shipId]);
+
+      // Surplus banked in earlier years is drawn oldest-first
+      const { draws, errors } = allocateBankedSurplus(this.bankBalances(shipId), amount, year);
+      if (errors.length > 0) {
+        throw new ValidationError(errors[0], errors);
+      }
+
+      const entries = draws.map(draw => this.insert("bankEntries", {
+        shipId,
+        year,
+        entryType: "apply",
+        originYear: draw.originYear,
+        amountGco2eq: -draw.amount,
+        createdAt: new Date(),
+      }));
+
+      const ledgerEntry = this.insertLedgerEntry({
+        shipId,
+        year,
+        entryType: "apply",
+        amountGco2eq: amount,
+        actor: operation.actor,
+        reason: operation.reason,
+        reference: entries.map(entry => `bank_entry:${entry.id}`).join(","),
+        details: { draws },
+      });
+
+      return { entries: copy(entries), ledgerEntry };
+    });
+  }
+
+  async borrowSurplus(operation: BalanceOperation, limit: number): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    return this.transaction(() => {
+      this.requireShips([shipId]);
+
+      const errors = validateBorrowing({
+        cb: this.tables.shipCompliance.find(c => c.shipId === shipId && c.year === year)?.cbGco2eq || 0,
+        amount,
+        limit,
+        borrowedPreviousYear: this.totalBorrowed(shipId, year - 1),
+      });
+      if (errors.length > 0) {
+        throw new ValidationError('Borrowing not allowed', errors);
+      }
+
+      const entry = this.insert("bankEntries", {
+        shipId,
+        year,
+        entryType: "borrow",
+        originYear: null,
+        amountGco2eq: amount,
+        createdAt: new Date(),
+      });
+
+      const ledgerEntry = this.insertLedgerEntry({
+        shipId,
+        year,
+        entryType: "borrow",
+        amountGco2eq: amount,
+        actor: operation.actor,
+        reason: operation.reason,
+        reference: `bank_entry:${entry.id}`,
+        details: { repaymentDue: calculateBorrowingRepayment(amount), repaymentYear: year + 1 },
+      });
+
+      return { entry: { ...entry }, ledgerEntry };
+    });
+  }
+
+  async recordComputedBalance(computed: ComputedBalance): Promise<number> {
+    const { shipId, year, computedCb } = computed;
+    return this.transaction(() => {
+      this.requireShips([shipId]);
+
+      const ledger = this.tables.complianceLedger.filter(e => e.shipId === shipId && e.year === year);
+      const delta = calculateComputationDelta(ledger, computedCb);
+      if (delta === 0 && ledger.some(entry => entry.entryType === "computation")) {
+        return ledger[ledger.length - 1].cbAfter;
+      }
+
+      return this.insertLedgerEntry({
+        shipId,
+        year,
+        entryType: "computation",
+        amountGco2eq: delta,
+        actor: computed.actor,
+        reason: computed.reason ?? (ledger.length > 0 ? "Recomputed from route data" : "Computed from route data"),
+        details: computed.details,
+      }).cbAfter;
+    });
+  }
+
+  async createPoolWithMembers(
+    year: number,
+    members: Array<{ shipId: string; computedCb: number }>,
+    actor: string
+  ): Promise<{ pool: Pool; members: PoolAllocation[] }> {
+    if (!year || year < 2000 || year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+    if (new Set(members.map(m => m.shipId)).size !== members.length) {
+      throw new ValidationError('A ship can only be added to a pool once');
+    }
+
+    return this.transaction(() => {
+      this.requireShips(members.map(m => m.shipId));
+
+      const recorded = (shipId: string) =>
+        this.tables.shipCompliance.find(c => c.shipId === shipId && c.year === year);
+      const unrecorded = new Set(members.filter(m => !recorded(m.shipId)).map(m => m.shipId));
+
+      const allocated = allocatePoolBalances(members.map(member => ({
+        shipId: member.shipId,
+        cbBefore: recorded(member.shipId)?.cbGco2eq ?? member.computedCb,
+      })));
+      const validation = validatePool(allocated);
+      if (!validation.valid) {
+        throw new ValidationError('Pool validation failed', validation.errors);
+      }
+
+      const pool = this.insert("pools", { year, createdAt: new Date() });
+      for (const member of allocated) {
+        this.insert("poolMembers", { poolId: pool.id, ...member });
+
+        // A ship without a recorded balance enters at its computed CB; record it
+        // first so the pool entry chains from that balance rather than zero
+        if (unrecorded.has(member.shipId)) {
+          this.insertLedgerEntry({
+            shipId: member.shipId,
+            year,
+            entryType: "computation",
+            amountGco2eq: member.cbBefore,
+            actor,
+            reason: `Computed from route data for pool ${pool.id}`,
+            details: { computedCb: member.cbBefore },
+          });
+        }
+        this.insertLedgerEntry({
+          shipId: member.shipId,
+          year,
+          entryType: "pool",
+          amountGco2eq: member.cbAfter - member.cbBefore,
+          actor,
+          reason: `Pool allocation (Article 21), pool ${pool.id}`,
+          reference: `pool:${pool.id}`,
+          details: { cbBefore: member.cbBefore, cbAfter: member.cbAfter },
+        });
+      }
+
+      return { pool: { ...pool }, members: allocated };
+    });
+  }
+
+  // Compliance, bank and pool records for the ship and period a route reports in
+  private routeReferences(shipId: string, year: number): string[] {
+    const references: string[] = [];
+
+    if (this.tables.shipCompliance.some(c => c.shipId === shipId && c.year === year)) {
+      references.push(`Compliance balance of ship ${shipId} for ${year}`);
+    }
+
+    const entries = this.tables.bankEntries.filter(e =>
+      e.shipId === shipId && (e.year === year || e.originYear === year)
+    );
+    if (entries.length > 0) {
+      references.push(`${entries.length} bank ${entries.length === 1 ? "entry" : "entries"} of ship ${shipId} for ${year}`);
+    }
+
+    const poolIds = this.tables.poolMembers
+      .filter(m => m.shipId === shipId)
+      .map(m => m.poolId)
+      .filter(poolId => this.tables.pools.some(p => p.id === poolId && p.year === year))
+      .sort((a, b) => a - b);
+    for (const poolId of poolIds) {
+      references.push(`Pool #${poolId} for ${year}`);
+    }
+
+    return references;
+  }
+
+  // Stand-in for DatabaseStorage's row locks, which also fail for unknown ships
+  private requireShips(shipIds: string[]): void {
+    const missing = shipIds.find(id => !this.tables.ships.some(ship => ship.imoNumber === id));
+    if (missing) {
+      throw new NotFoundError('Ship', missing);
+    }
+  }
+}
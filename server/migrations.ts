@@ -0,0 +1,277 @@
+// migrations.ts - versioned, forward-only schema migrations
+// SQL files in migrations/ are generated from shared/schema.ts by drizzle-kit
+// (npm run db:generate) and applied in journal order; every applied version is
+// recorded in schema_migrations together with the hash of its file
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { pgSchema, pgTable, integer, varchar, timestamp } from "drizzle-orm/pg-core";
+import { and, eq, sql } from "drizzle-orm";
+import { db, executeSQL } from "./db";
+
+export const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "migrations");
+
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+// Kept out of shared/schema.ts so drizzle-kit does not generate it as app schema
+const schemaMigrations = pgTable("schema_migrations", {
+  version: integer("version").primaryKey(),
+  name: varchar("name", { length: 200 }).notNull(),
+  hash: varchar("hash", { length: 64 }).notNull(), // sha256 of the SQL file
+  appliedAt: timestamp("applied_at").notNull().default(sql`now()`),
+});
+
+// Catalogue views, read to check a schema without changing it
+const informationSchema = pgSchema("information_schema");
+
+const catalogueTables = informationSchema.table("tables", {
+  tableSchema: varchar("table_schema"),
+  tableName: varchar("table_name"),
+});
+
+const catalogueColumns = informationSchema.table("columns", {
+  tableSchema: varchar("table_schema"),
+  tableName: varchar("table_name"),
+  columnName: varchar("column_name"),
+  dataType: varchar("data_type"),
+  characterMaximumLength: integer("character_maximum_length"),
+});
+
+export type AppliedMigration = typeof schemaMigrations.$inferSelect;
+
+export interface Migration {
+  version: number;
+  name: string;
+  hash: string;
+  statements: string[];
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  modified: Migration[]; // Applied, but the file has changed since
+  unknown: AppliedMigration[]; // Applied, but missing from this build (database is ahead)
+}
+
+export class SchemaOutOfDateError extends Error {
+  constructor(public status: MigrationStatus) {
+    super(describeStatus(status));
+    this.name = 'SchemaOutOfDateError';
+  }
+}
+
+export class SchemaMismatchError extends Error {
+  constructor(public differences: string[]) {
+    super(`Database schema does not match the migrations - ${differences.join("; ")}`);
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+function readJournal(dir: string): Array<{ idx: number; tag: string }> {
+  const journal = JSON.parse(fs.readFileSync(path.join(dir, "meta", "_journal.json"), "utf-8")) as {
+    entries: Array<{ idx: number; tag: string }>;
+  };
+  return journal.entries.sort((a, b) => a.idx - b.idx);
+}
+
+/**
+ * Read migrations from drizzle-kit's journal, in version order
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  return readJournal(dir)
+    .map(entry => {
+      const content = fs.readFileSync(path.join(dir, `${entry.tag}.sql`), "utf-8");
+      return {
+        version: entry.idx,
+        name: entry.tag,
+        hash: createHash("sha256").update(content).digest("hex"),
+        statements: content.split(STATEMENT_BREAKPOINT).map(s => s.trim()).filter(s => s !== ""),
+      };
+    });
+}
+
+// Tables the migrations leave behind, from drizzle-kit's snapshot after the last one
+function loadExpectedTables(dir: string): Array<{ name: string; columns: Array<{ name: string; type: string }> }> {
+  const entries = readJournal(dir);
+  const latest = entries[entries.length - 1];
+  if (!latest) return [];
+
+  const snapshot = JSON.parse(
+    fs.readFileSync(path.join(dir, "meta", `${String(latest.idx).padStart(4, "0")}_snapshot.json`), "utf-8")
+  ) as { tables: Record<string, { name: string; columns: Record<string, { name: string; type: string }> }> };
+
+  return Object.values(snapshot.tables).map(table => ({ name: table.name, columns: Object.values(table.columns) }));
+}
+
+// Column type as information_schema reports it, e.g. varchar(50) -> character varying(50)
+function catalogueType(type: string): string {
+  const [, base, length] = type.match(/^([a-z ]+?)(?:\((\d+)\))?$/) ?? [type, type, undefined];
+  const names: Record<string, string> = {
+    serial: "integer",
+    bigserial: "bigint",
+    varchar: "character varying",
+    timestamp: "timestamp without time zone",
+  };
+  const name = names[base] ?? base;
+  return length ? `${name}(${length})` : name;
+}
+
+/**
+ * Differences between the database's tables and the schema the migrations create;
+ * empty when every expected table and column exists with the expected type
+ */
+export async function findSchemaDifferences(dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const actual = await db
+    .select()
+    .from(catalogueColumns)
+    .where(eq(catalogueColumns.tableSchema, sql`current_schema()`));
+
+  const differences: string[] = [];
+  for (const table of loadExpectedTables(dir)) {
+    const columns = actual.filter(c => c.tableName === table.name);
+    if (columns.length === 0) {
+      differences.push(`table ${table.name} is missing`);
+      continue;
+    }
+
+    for (const expected of table.columns) {
+      const column = columns.find(c => c.columnName === expected.name);
+      if (!column) {
+        differences.push(`column ${table.name}.${expected.name} is missing`);
+        continue;
+      }
+
+      const type = column.characterMaximumLength === null
+        ? column.dataType
+        : `${column.dataType}(${column.characterMaximumLength})`;
+      const expectedType = catalogueType(expected.type);
+      if (type !== expectedType) {
+        differences.push(`column ${table.name}.${expected.name} is ${type}, expected ${expectedType}`);
+      }
+    }
+  }
+  return differences;
+}
+
+async function migrationsTableExists(): Promise<boolean> {
+  const [table] = await db
+    .select()
+    .from(catalogueTables)
+    .where(and(
+      eq(catalogueTables.tableSchema, sql`current_schema()`),
+      eq(catalogueTables.tableName, "schema_migrations")
+    ));
+  return table !== undefined;
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await executeSQL(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(200) NOT NULL,
+      hash VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+}
+
+/**
+ * Compare the migrations in this build with those recorded in the database
+ * Read-only: a database without schema_migrations has nothing applied yet
+ */
+export async function getMigrationStatus(migrations: Migration[] = loadMigrations()): Promise<MigrationStatus> {
+  const applied = await migrationsTableExists()
+    ? await db.select().from(schemaMigrations).orderBy(schemaMigrations.version)
+    : [];
+  const appliedByVersion = new Map(applied.map(m => [m.version, m]));
+  const known = new Set(migrations.map(m => m.version));
+
+  return {
+    applied,
+    pending: migrations.filter(m => !appliedByVersion.has(m.version)),
+    modified: migrations.filter(m => {
+      const record = appliedByVersion.get(m.version);
+      return record !== undefined && record.hash !== m.hash;
+    }),
+    unknown: applied.filter(m => !known.has(m.version)),
+  };
+}
+
+export function describeStatus(status: MigrationStatus): string {
+  const problems: string[] = [];
+  if (status.pending.length > 0) {
+    problems.push(`${status.pending.length} pending migration(s): ${status.pending.map(m => m.name).join(", ")}`);
+  }
+  if (status.modified.length > 0) {
+    problems.push(`applied migration(s) changed since they ran: ${status.modified.map(m => m.name).join(", ")}`);
+  }
+  if (status.unknown.length > 0) {
+    problems.push(`database has migration(s) this build does not know: ${status.unknown.map(m => m.name).join(", ")}`);
+  }
+  return problems.length > 0
+    ? `Database schema is out of date - ${problems.join("; ")}`
+    : `Database schema is up to date (${status.applied.length} migration(s) applied)`;
+}
+
+/**
+ * Apply pending migrations, each in its own transaction
+ * With dryRun, nothing is executed and the pending migrations are returned as the plan.
+ * Refuses to run when applied migrations were edited or the database is ahead of this build
+ */
+export async function applyMigrations(options: { dryRun?: boolean } = {}): Promise<Migration[]> {
+  const status = await getMigrationStatus();
+  if (status.modified.length > 0 || status.unknown.length > 0) {
+    throw new SchemaOutOfDateError({ ...status, pending: [] });
+  }
+  if (options.dryRun) return status.pending;
+
+  await ensureMigrationsTable();
+  for (const migration of status.pending) {
+    await db.transaction(async (tx) => {
+      for (const statement of migration.statements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(schemaMigrations).values({
+        version: migration.version,
+        name: migration.name,
+        hash: migration.hash,
+      });
+    });
+  }
+
+  return status.pending;
+}
+
+/**
+ * Record every migration as applied without running it
+ * For databases whose schema was created before versioned migrations existed;
+ * refuses with SchemaMismatchError unless the schema already matches the migrations
+ */
+export async function baselineMigrations(): Promise<Migration[]> {
+  const differences = await findSchemaDifferences();
+  if (differences.length > 0) {
+    throw new SchemaMismatchError(differences);
+  }
+
+  const { pending } = await getMigrationStatus();
+  await ensureMigrationsTable();
+  for (const migration of pending) {
+    await db.insert(schemaMigrations).values({
+      version: migration.version,
+      name: migration.name,
+      hash: migration.hash,
+    });
+  }
+  return pending;
+}
+
+/**
+ * Startup check - throws SchemaOutOfDateError unless every migration in this
+ * build has been applied unchanged
+ */
+export async function assertSchemaUpToDate(): Promise<void> {
+  const status = await getMigrationStatus();
+  if (status.pending.length > 0 || status.modified.length > 0 || status.unknown.length > 0) {
+    throw new SchemaOutOfDateError(status);
+  }
+}
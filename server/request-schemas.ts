@@ -0,0 +1,192 @@
+// Request schemas - one per endpoint input (query, params or body)
+// Query strings and path params arrive as text and are converted here, so
+// handlers only ever see checked, typed values
+import { z } from "zod";
+import { insertRouteSchema, ROUTE_SORT_FIELDS, type Route, type RouteSortField, type SortOrder } from "@shared/schema";
+import type { RouteCursor, RouteQuery } from "./storage";
+import { toGrams } from "./domain/balance-precision";
+import { isValidImoNumber } from "./domain/ship-service";
+
+// Query and path values
+const requiredText = (name: string) =>
+  z.string({ required_error: `${name} is required`, invalid_type_error: `${name} must be a single value` })
+    .trim()
+    .min(1, `${name} is required`);
+
+const queryInteger = (name: string) =>
+  requiredText(name).regex(/^-?\d+$/, `${name} must be a whole number`).transform(Number);
+
+const queryYear = queryInteger("year").pipe(
+  z.number().min(2000, "year must be 2000 or later").max(2100, "year must be 2100 or earlier")
+);
+
+const queryImoNumber = (name: string) =>
+  requiredText(name).refine(isValidImoNumber, `${name} must be a valid IMO number`);
+
+const queryNumber = (name: string) =>
+  requiredText(name)
+    .transform(Number)
+    .pipe(z.number({ invalid_type_error: `${name} must be a number` }).finite(`${name} must be a number`));
+
+const queryFraction = (name: string) =>
+  requiredText(name)
+    .transform(Number)
+    .pipe(z.number({ invalid_type_error: `${name} must be a number` }).finite(`${name} must be a number`).min(0, `${name} must not be negative`));
+
+// Body values
+const bodyShipId = z.string({ required_error: "shipId is required" }).trim().min(1, "shipId is required");
+
+const bodyYear = z.number({ required_error: "year is required", invalid_type_error: "year must be a number" })
+  .int("year must be a whole number")
+  .min(2000, "year must be 2000 or later")
+  .max(2100, "year must be 2100 or earlier");
+
+// Amounts are settled in whole grams, rounded half to even
+const bodyAmount = z.number({ required_error: "amount is required", invalid_type_error: "amount must be a number" })
+  .finite("amount must be a number")
+  .transform(toGrams)
+  .refine(grams => grams >= 1, "Amount must be at least 1 gCO2eq");
+
+// Queries
+export const shipQuerySchema = z.object({ shipId: requiredText("shipId") });
+
+export const shipYearQuerySchema = z.object({ shipId: requiredText("shipId"), year: queryYear });
+
+// Ships need not be registered, but their IMO number must be well formed
+export const complianceBalanceQuerySchema = z.object({ shipId: queryImoNumber("shipId"), year: queryYear });
+
+export const yearQuerySchema = z.object({ year: queryYear });
+
+export const optionalYearQuerySchema = z.object({ year: queryYear.optional() });
+
+export const voyagesQuerySchema = z.object({ shipId: requiredText("shipId"), year: queryYear.optional() });
+
+export const bdnQuerySchema = z.object({ shipId: requiredText("shipId").optional(), year: queryYear.optional() });
+
+export const reconciliationQuerySchema = z.object({
+  shipId: requiredText("shipId").optional(),
+  year: queryYear.optional(),
+  threshold: queryFraction("threshold").optional(),
+});
+
+// Route lists - cursors are opaque to clients and only valid for the sort they came from
+const DEFAULT_ROUTE_PAGE_SIZE = 50;
+const MAX_ROUTE_PAGE_SIZE = 500;
+
+export function encodeRouteCursor(query: RouteQuery, route: Route): string {
+  const position = [query.sort, query.order, route[query.sort], route.id];
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeRouteCursor(cursor: string, sort: RouteSortField, order: SortOrder): RouteCursor | undefined {
+  try {
+    const [cursorSort, cursorOrder, value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (cursorSort !== sort || cursorOrder !== order) return undefined;
+    if ((typeof value !== "string" && typeof value !== "number") || !Number.isInteger(id)) return undefined;
+    return { value, id };
+  } catch {
+    return undefined;
+  }
+}
+
+// year is shorthand for yearFrom = yearTo = year
+export const routeListQuerySchema = z.object({
+  shipId: requiredText("shipId").optional(),
+  vesselType: requiredText("vesselType").optional(),
+  fuelType: requiredText("fuelType").optional(),
+  year: queryYear.optional(),
+  yearFrom: queryYear.optional(),
+  yearTo: queryYear.optional(),
+  intensityMin: queryNumber("intensityMin").optional(),
+  intensityMax: queryNumber("intensityMax").optional(),
+  sort: z.enum(ROUTE_SORT_FIELDS, {
+    errorMap: () => ({ message: `sort must be one of ${ROUTE_SORT_FIELDS.join(", ")}` }),
+  }).default("year"),
+  order: z.enum(["asc", "desc"], {
+    errorMap: () => ({ message: "order must be asc or desc" }),
+  }).default("asc"),
+  limit: queryInteger("limit").pipe(
+    z.number()
+      .min(1, "limit must be at least 1")
+      .max(MAX_ROUTE_PAGE_SIZE, `limit must be at most ${MAX_ROUTE_PAGE_SIZE}`)
+  ).optional(),
+  cursor: requiredText("cursor").optional(),
+}).transform((params, ctx): RouteQuery => {
+  const { year, cursor, limit, ...filters } = params;
+  const yearFrom = year ?? filters.yearFrom;
+  const yearTo = year ?? filters.yearTo;
+
+  if (yearFrom !== undefined && yearTo !== undefined && yearFrom > yearTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["yearFrom"], message: "yearFrom must not be after yearTo" });
+  }
+  if (filters.intensityMin !== undefined && filters.intensityMax !== undefined &&
+      filters.intensityMin > filters.intensityMax) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["intensityMin"], message: "intensityMin must not exceed intensityMax" });
+  }
+
+  const after = cursor === undefined ? undefined : decodeRouteCursor(cursor, params.sort, params.order);
+  if (cursor !== undefined && !after) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cursor"], message: "cursor is invalid or was issued for a different sort" });
+  }
+
+  return { ...filters, yearFrom, yearTo, limit: limit ?? DEFAULT_ROUTE_PAGE_SIZE, after };
+});
+
+// Path params
+export const routeIdParamsSchema = z.object({ routeId: requiredText("routeId") });
+
+export const shipIdParamsSchema = z.object({ shipId: requiredText("shipId") });
+
+export const locodeParamsSchema = z.object({ locode: requiredText("locode") });
+
+export const idParamsSchema = z.object({ id: queryInteger("id") });
+
+export const engineParamsSchema = z.object({ shipId: requiredText("shipId"), engineId: queryInteger("engineId") });
+
+// Bodies
+export const balanceOperationSchema = z.object({
+  shipId: bodyShipId,
+  year: bodyYear,
+  amount: bodyAmount,
+  reason: z.string().trim().optional(),
+});
+
+export const poolCreationSchema = z.object({
+  year: bodyYear,
+  members: z.array(z.object({
+    shipId: bodyShipId,
+    cbBefore: z.number().optional(), // Informational; the server uses recorded balances
+  }), { required_error: "members is required" }).min(2, "Pool requires at least 2 members"),
+});
+
+// The baseline flag has its own endpoint, which keeps a single baseline
+export const routeCreationSchema = insertRouteSchema.omit({ isBaseline: true });
+
+export const routeUpdateSchema = routeCreationSchema.partial().refine(
+  updates => Object.values(updates).some(value => value !== undefined),
+  "At least one route field is required"
+);
+
+export const intensityCalculationSchema = z.object({
+  fuels: z.array(z.object({
+    fuelType: z.string().min(1, "fuelType is required"),
+    fuelClass: z.enum(["fossil", "biofuel", "rfnbo"]).optional(),
+    massTonnes: z.number(),
+    lcv: z.number().optional(),
+    wttFactor: z.number().optional(),
+    cfCo2: z.number().optional(),
+    cfCh4: z.number().optional(),
+    cfN2o: z.number().optional(),
+    cslip: z.number().optional(),
+  }), { required_error: "fuels is required", invalid_type_error: "fuels must be an array" }),
+  declaredIntensity: z.number().optional(),
+  tolerance: z.number().nonnegative().optional(),
+});
+
+export const routeFuelLinesSchema = z.object({
+  lines: z.array(z.object({
+    fuelType: z.string().min(1, "fuelType is required"),
+    massTonnes: z.number(),
+    consumer: z.string().nullable().optional(),
+  }), { required_error: "lines is required", invalid_type_error: "lines must be an array" }),
+});
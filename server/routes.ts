@@ -1,278 +1,1079 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, NotFoundError, ValidationError, type RouteQuery, type RouteQueryResult } from "./storage";
+import { fuelCatalogue } from "./fuels";
+import { ApiError } from "./api-errors";
 import type { 
+  Route,
   ComparisonResult, 
+  Page,
   ComplianceBalanceResponse, 
-  PoolCreationRequest,
-  PoolCreationResponse 
+  PoolCreationResponse,
+  TargetIntensityResponse,
+  IntensityCalculationResponse,
+  RouteFuelLinesResponse,
+  RouteFacets,
+  RouteMutationResponse,
+  PenaltyResponse,
+  OpsComplianceResponse,
+  CompanySummaryResponse,
+  BunkerReconciliation,
+  BunkerReconciliationResponse,
+  ComplianceLedgerResponse
+} from "@shared/schema";
+import {
+  insertPortCallSchema,
+  insertShipEngineSchema,
+  insertShipSchema,
+  insertVoyageSchema,
+  insertBunkerDeliveryNoteSchema,
+  insertCompanySchema,
+  insertShipCompanyAssignmentSchema
 } from "@shared/schema";
 
 import { 
-  TARGET_INTENSITY_2025,
-  calculateComplianceBalance,
+  REFERENCE_INTENSITY,
+  TARGET_REDUCTION_SCHEDULE,
+  getTargetIntensity,
+  getTargetReduction,
+  calculateRouteCompliance,
+  aggregateShipCompliance,
   calculatePercentDiff,
-  isCompliant 
+  isCompliant,
+  affectedShipPeriods
 } from "./domain/compliance-service";
 
-import { 
-  allocatePoolBalances,
-  validatePool 
-} from "./domain/pooling-service";
+import { resolveFuelMixEntry } from "./domain/fuel-catalogue";
+
+import {
+  calculateGhgIntensity,
+  calculateFuelLinesIntensity,
+  checkDeclaredIntensity,
+  validateFuelMix
+} from "./domain/intensity-service";
+
+import {
+  calculatePenalty,
+  countConsecutiveDeficitYears
+} from "./domain/penalty-service";
+
+import { summarizeOpsCompliance } from "./domain/ops-service";
+
+import { portReference } from "./domain/port-reference";
+import { derivePortStays } from "./domain/voyage-service";
+
+import {
+  projectComputedBalance,
+  verifyLedger
+} from "./domain/ledger-service";
+import { BALANCE_ROUNDING, sumGrams } from "./domain/balance-precision";
+
+import {
+  DEFAULT_BDN_VARIANCE_THRESHOLD,
+  parseBdnCsv,
+  reconcileBunkers,
+  type FuelMass
+} from "./domain/bunker-service";
+
+import {
+  findResponsibleCompany,
+  summarizeFleetYear,
+  type ShipYearPosition
+} from "./domain/fleet-service";
+
+import {
+  calculateBorrowingLimit,
+  calculateBorrowingRepayment
+} from "./domain/banking-service";
+
+import {
+  balanceOperationSchema,
+  bdnQuerySchema,
+  complianceBalanceQuerySchema,
+  encodeRouteCursor,
+  engineParamsSchema,
+  idParamsSchema,
+  intensityCalculationSchema,
+  locodeParamsSchema,
+  optionalYearQuerySchema,
+  poolCreationSchema,
+  reconciliationQuerySchema,
+  routeFuelLinesSchema,
+  routeCreationSchema,
+  routeIdParamsSchema,
+  routeListQuerySchema,
+  routeUpdateSchema,
+  shipIdParamsSchema,
+  shipQuerySchema,
+  shipYearQuerySchema,
+  voyagesQuerySchema,
+  yearQuerySchema
+} from "./request-schemas";
 
 export async function registerRoutes(app: Express): Promise<Server> {
 
-  // ✅ Centralized error helper
-  const handleError = (res: any, error: unknown, message: string) => {
-    console.error(`❌ ${message}:`, error);
-    res.status(500).json({ error: message });
+  // Handlers parse their input with the request schemas and pass every failure
+  // to next(); errorHandler (api-errors.ts) turns it into { code, message, details }
+
+  // Load a route's fuel lines and its ship's engines, then compute CB details
+  const computeRouteCompliance = async (route: Route) => {
+    const fuelLines = await storage.getRouteFuelLines(route.id);
+    const engines = route.shipId ? await storage.getShipEngines(route.shipId) : [];
+    return calculateRouteCompliance(route, fuelCatalogue, fuelLines, engines);
+  };
+
+  // Aggregate CB details over all of a ship's routes in a reporting period
+  const computeShipCompliance = async (shipId: string, year: number) => {
+    const ship = await storage.getShipByImo(shipId);
+    const shipRoutes = await storage.getRoutesByShip(shipId, year);
+    const details = await Promise.all(shipRoutes.map(computeRouteCompliance));
+    return {
+      ship,
+      routeIds: shipRoutes.map(route => route.routeId),
+      ...aggregateShipCompliance(details, year),
+    };
+  };
+
+  // Ship CB for a period net of last period's borrowing repayment
+  const computeShipBalance = async (shipId: string, year: number) => {
+    const details = await computeShipCompliance(shipId, year);
+    const borrowedPreviousYear = await storage.getTotalBorrowed(shipId, year - 1);
+    const borrowingRepayment = calculateBorrowingRepayment(borrowedPreviousYear);
+    return { ...details, borrowingRepayment, cb: details.cb - borrowingRepayment };
+  };
+
+  // Record the CB computed from route data; only a change is appended, so later
+  // ledger entries (banking, pooling) stay intact
+  const recordComputedBalance = async (
+    shipId: string,
+    year: number,
+    actor: string,
+    reason?: string
+  ) => {
+    // Advance surplus borrowed last period is repaid from this period
+    const details = await computeShipBalance(shipId, year);
+    const { cb: computedCb, borrowingRepayment } = details;
+
+    const cb = await storage.recordComputedBalance({
+      shipId,
+      year,
+      computedCb,
+      actor,
+      reason,
+      details: {
+        computedCb,
+        rawCb: details.cb + borrowingRepayment,
+        borrowingRepayment,
+        energyInScope: details.energyInScope,
+        ghgIntensity: details.ghgIntensity,
+        targetIntensity: getTargetIntensity(year),
+        rfnboRewardCb: details.rfnbo.rewardCb,
+        routeIds: details.routeIds,
+      },
+    });
+
+    return { ...details, computedCb, cb };
   };
 
-  // ✅ GET all routes
-  app.get("/api/routes", async (req, res) => {
+  // Bring recorded CBs up to date; periods never computed have nothing recorded
+  // yet and are computed on first request
+  const recomputeBalances = async (
+    periods: Array<{ shipId: string; year: number }>,
+    actor: string,
+    reason: string
+  ) => {
+    const recomputed: RouteMutationResponse["recomputed"] = [];
+    for (const { shipId, year } of periods) {
+      const ledger = await storage.getLedgerEntries(shipId, year);
+      if (!ledger.some(entry => entry.entryType === "computation")) continue;
+
+      const { cb } = await recordComputedBalance(shipId, year, actor, reason);
+      recomputed.push({ shipId, year, cb });
+    }
+    return recomputed;
+  };
+
+  // Recompute the ship periods a route change affects
+  const recomputeDependentBalances = (
+    before: Route,
+    after: Route,
+    actor: string,
+    change: "created" | "updated"
+  ) => recomputeBalances(affectedShipPeriods(before, after), actor, `Recomputed after route ${after.routeId} was ${change}`);
+
+  // Page envelope for a route query; the cursor points after the last route returned
+  const routePage = <T>(query: RouteQuery, result: RouteQueryResult, items: T[]): Page<T> => ({
+    items,
+    total: result.total,
+    nextCursor: result.hasMore ? encodeRouteCursor(query, result.routes[result.routes.length - 1]) : null,
+  });
+
+  // Who made a ledger-changing request; there is no login, so callers identify themselves
+  const actorOf = (req: Request) => req.get("X-Actor")?.trim() || "api";
+
+  // ✅ Routes - filtered, sorted and paginated with a cursor
+  app.get("/api/routes", async (req, res, next) => {
     try {
-      const allRoutes = await storage.getAllRoutes();
-      res.json(allRoutes);
+      const query = routeListQuerySchema.parse(req.query);
+      const result = await storage.queryRoutes(query);
+      res.json(routePage(query, result, result.routes));
     } catch (error) {
-      handleError(res, error, "Failed to fetch routes");
+      next(error);
     }
   });
 
-  // ✅ Set baseline route
-  app.post("/api/routes/:routeId/baseline", async (req, res) => {
+  // Values to offer as route filters
+  app.get("/api/routes/facets", async (req, res, next) => {
     try {
-      const { routeId } = req.params;
+      const facets: RouteFacets = await storage.getRouteFacets();
+      res.json(facets);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Route maintenance
+  app.post("/api/routes", async (req, res, next) => {
+    try {
+      const route = await storage.createRoute(routeCreationSchema.parse(req.body));
+
+      // A recorded CB for the ship and period no longer covers all of its routes
+      const recomputed = route.shipId
+        ? await recomputeDependentBalances({ ...route, shipId: null }, route, actorOf(req), "created")
+        : [];
+
+      const response: RouteMutationResponse = { route, recomputed };
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/routes/:routeId", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
+      const updates = routeUpdateSchema.parse(req.body);
+
+      const existing = await storage.getRouteByRouteId(routeId);
+      const route = await storage.updateRoute(String(existing.id), updates);
+      const recomputed = await recomputeDependentBalances(existing, route, actorOf(req), "updated");
+
+      const response: RouteMutationResponse = { route, recomputed };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Refused while compliance, bank or pool records exist for the route's ship and period
+  app.delete("/api/routes/:routeId", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
       const route = await storage.getRouteByRouteId(routeId);
-      if (!route) return res.status(404).json({ error: "Route not found" });
+
+      await storage.deleteRoute(String(route.id));
+      res.json({ success: true, routeId });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Set baseline route
+  app.post("/api/routes/:routeId/baseline", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
+      await storage.getRouteByRouteId(routeId);
 
       await storage.setBaseline(routeId);
       res.json({ success: true, routeId });
     } catch (error) {
-      handleError(res, error, "Failed to set baseline");
+      next(error);
     }
   });
 
-  // ✅ Compare baseline vs other routes
-  app.get("/api/routes/comparison", async (req, res) => {
+  // ✅ Compare baseline vs other routes; takes the same query as /api/routes
+  app.get("/api/routes/comparison", async (req, res, next) => {
     try {
+      const query = routeListQuerySchema.parse(req.query);
       const baseline = await storage.getBaselineRoute();
-      if (!baseline) return res.json([]);
+      if (!baseline) {
+        const empty: Page<ComparisonResult> = { items: [], total: 0, nextCursor: null };
+        return res.json(empty);
+      }
 
-      const allRoutes = await storage.getAllRoutes();
+      const result = await storage.queryRoutes(query);
 
-      const comparisons: ComparisonResult[] = allRoutes.map(route => {
+      const comparisons: ComparisonResult[] = result.routes.map(route => {
         const percentDiff = route.isBaseline
           ? 0
           : calculatePercentDiff(route.ghgIntensity, baseline.ghgIntensity);
 
         return {
           route,
+          baselineRouteId: baseline.routeId,
+          baselineYear: baseline.year,
           baselineIntensity: baseline.ghgIntensity,
+          targetIntensity: getTargetIntensity(route.year),
           percentDiff,
-          compliant: isCompliant(route.ghgIntensity),
+          compliant: isCompliant(route.ghgIntensity, route.year),
         };
       });
 
-      res.json(comparisons);
+      res.json(routePage(query, result, comparisons));
     } catch (error) {
-      handleError(res, error, "Failed to fetch comparison data");
+      next(error);
     }
   });
 
-  // ✅ Compliance balance endpoint
-  app.get("/api/compliance/cb", async (req, res) => {
+  // ✅ Fuel catalogue
+  app.get("/api/fuels", async (req, res, next) => {
     try {
-      const { shipId, year } = req.query;
-      if (!shipId || !year)
-        return res.status(400).json({ error: "shipId and year are required" });
+      res.json(fuelCatalogue.list());
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const shipRoute = await storage.getRouteByRouteId(shipId as string);
-      if (!shipRoute)
-        return res.json({ shipId, year: parseInt(year as string), cb: 0 });
+  // ✅ Well-to-wake intensity from fuel mix
+  app.post("/api/routes/intensity", async (req, res, next) => {
+    try {
+      const { fuels, declaredIntensity, tolerance } = intensityCalculationSchema.parse(req.body);
 
-      const cb = calculateComplianceBalance(
-        shipRoute.ghgIntensity,
-        shipRoute.fuelConsumption
-      );
+      const resolved = fuels.map(fuel => resolveFuelMixEntry(fuelCatalogue, fuel));
+      const errors = validateFuelMix(resolved);
+      if (errors.length > 0)
+        throw new ValidationError("Invalid fuel mix", errors);
 
-      const existing = await storage.getShipCompliance(
-        shipId as string,
-        parseInt(year as string)
-      );
+      const breakdown = calculateGhgIntensity(resolved);
+      const response: IntensityCalculationResponse = { ...breakdown, mismatch: false };
 
-      if (existing)
-        await storage.updateShipCompliance(existing.id, cb);
-      else
-        await storage.createShipCompliance({
-          shipId: shipId as string,
-          year: parseInt(year as string),
-          cbGco2eq: cb,
-        });
+      if (typeof declaredIntensity === "number") {
+        const check = checkDeclaredIntensity(declaredIntensity, breakdown.ghgIntensity, tolerance);
+        response.declaredIntensity = declaredIntensity;
+        response.deviation = check.deviation;
+        response.mismatch = check.mismatch;
+      }
 
-      res.json({ shipId, year: parseInt(year as string), cb });
+      res.json(response);
     } catch (error) {
-      handleError(res, error, "Failed to calculate compliance balance");
+      next(error);
     }
   });
 
-  // ✅ Adjusted CB after banking
-  app.get("/api/compliance/adjusted-cb", async (req, res) => {
+  // ✅ Port reference (UN/LOCODE classification)
+  app.get("/api/ports", async (req, res, next) => {
     try {
-      const { shipId, year } = req.query;
-      if (!shipId || !year)
-        return res.status(400).json({ error: "shipId and year are required" });
+      res.json(portReference.list());
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const compliance = await storage.getShipCompliance(
-        shipId as string,
-        parseInt(year as string)
+  app.get("/api/ports/:locode", async (req, res, next) => {
+    try {
+      const { locode } = locodeParamsSchema.parse(req.params);
+      res.json(portReference.classify(locode));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Voyages - scope and reporting year derived from ports and timestamps
+  app.get("/api/voyages", async (req, res, next) => {
+    try {
+      const { shipId, year } = voyagesQuerySchema.parse(req.query);
+      const shipVoyages = await storage.getVoyages(shipId, year);
+      res.json(shipVoyages);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/voyages", async (req, res, next) => {
+    try {
+      const insertVoyage = insertVoyageSchema.parse(req.body);
+
+      // A linked route's totals follow its voyages, and so do the CBs recorded from it
+      const before = insertVoyage.routeId ? await storage.getRouteById(String(insertVoyage.routeId)) : undefined;
+      const voyage = await storage.createVoyage(insertVoyage);
+      if (before) {
+        const after = await storage.getRouteById(String(before.id));
+        await recomputeDependentBalances(before, after, actorOf(req), "updated");
+      }
+
+      res.status(201).json(voyage);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/voyages/:id", async (req, res, next) => {
+    try {
+      const { id } = idParamsSchema.parse(req.params);
+      const voyage = await storage.getVoyage(id);
+
+      const before = voyage.routeId !== null ? await storage.getRouteById(String(voyage.routeId)) : undefined;
+      await storage.deleteVoyage(id);
+      if (before) {
+        const after = await storage.getRouteById(String(before.id));
+        await recomputeDependentBalances(before, after, actorOf(req), "updated");
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/routes/:routeId/voyages", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
+      const route = await storage.getRouteByRouteId(routeId);
+      const routeVoyages = await storage.getRouteVoyages(route.id);
+      res.json(routeVoyages);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Port stays derived from consecutive voyages
+  app.get("/api/ships/:shipId/port-stays", async (req, res, next) => {
+    try {
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const { year } = optionalYearQuerySchema.parse(req.query);
+      const shipVoyages = await storage.getVoyages(shipId);
+      const stays = derivePortStays(shipVoyages, locode => portReference.classify(locode));
+
+      res.json(year !== undefined ? stays.filter(stay => stay.year === year) : stays);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Bunker delivery notes
+  app.get("/api/bdns", async (req, res, next) => {
+    try {
+      const { shipId, year } = bdnQuerySchema.parse(req.query);
+      const notes = await storage.getBunkerDeliveryNotes(shipId, year);
+      res.json(notes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Accepts a JSON array of BDNs or a CSV export (Content-Type: text/csv)
+  app.post("/api/bdns", express.text({ type: ["text/csv", "text/plain"] }), async (req, res, next) => {
+    try {
+      let records: unknown[];
+      if (typeof req.body === "string") {
+        const csv = parseBdnCsv(req.body);
+        if (csv.errors.length > 0)
+          throw new ApiError(400, "invalid_request", "Invalid CSV", csv.errors.map(message => ({ message })));
+        records = csv.records;
+      } else {
+        records = Array.isArray(req.body) ? req.body : [req.body];
+      }
+
+      const notes = await storage.createBunkerDeliveryNotes(
+        insertBunkerDeliveryNoteSchema.array().min(1, "At least one bunker delivery note is required").parse(records)
       );
-      const totalBanked = await storage.getTotalBanked(
-        shipId as string,
-        parseInt(year as string)
+      res.status(201).json(notes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Bunkered vs reported consumption per ship per period
+  app.get("/api/bdns/reconciliation", async (req, res, next) => {
+    try {
+      const { shipId, year: reportingYear, threshold } = reconciliationQuerySchema.parse(req.query);
+      const varianceThreshold = threshold ?? DEFAULT_BDN_VARIANCE_THRESHOLD;
+
+      const shipIds = shipId
+        ? [shipId]
+        : (await storage.getAllShips()).map(ship => ship.imoNumber);
+      const canonicalFuel = (fuelType: string) => fuelCatalogue.find(fuelType)?.name ?? fuelType;
+
+      const periods: BunkerReconciliation[] = [];
+      for (const id of shipIds) {
+        const bunkeredByYear = new Map<number, FuelMass[]>();
+        for (const note of await storage.getBunkerDeliveryNotes(id, reportingYear)) {
+          const noteYear = parseInt(note.deliveryDate.slice(0, 4));
+          bunkeredByYear.set(noteYear, [
+            ...(bunkeredByYear.get(noteYear) ?? []),
+            { fuelType: note.fuelType, massTonnes: note.massTonnes },
+          ]);
+        }
+
+        // Fuel lines carry the per-fuel split; otherwise the route's primary fuel
+        const reportedByYear = new Map<number, FuelMass[]>();
+        for (const route of await storage.getRoutesByShip(id, reportingYear)) {
+          const fuelLines = await storage.getRouteFuelLines(route.id);
+          const masses = fuelLines.length > 0
+            ? fuelLines.map(line => ({ fuelType: canonicalFuel(line.fuelType), massTonnes: line.massTonnes }))
+            : [{ fuelType: canonicalFuel(route.fuelType), massTonnes: route.fuelConsumption }];
+          reportedByYear.set(route.year, [...(reportedByYear.get(route.year) ?? []), ...masses]);
+        }
+
+        const years = Array.from(new Set(
+          Array.from(bunkeredByYear.keys()).concat(Array.from(reportedByYear.keys()))
+        )).sort((a, b) => a - b);
+
+        for (const y of years) {
+          periods.push(reconcileBunkers(
+            id,
+            y,
+            bunkeredByYear.get(y) ?? [],
+            reportedByYear.get(y) ?? [],
+            varianceThreshold
+          ));
+        }
+      }
+
+      const response: BunkerReconciliationResponse = { threshold: varianceThreshold, periods };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/bdns/:id", async (req, res, next) => {
+    try {
+      const { id } = idParamsSchema.parse(req.params);
+      await storage.deleteBunkerDeliveryNote(id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Fuel consumption lines per route
+  app.get("/api/routes/:routeId/fuels", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
+      const route = await storage.getRouteByRouteId(routeId);
+      const lines = await storage.getRouteFuelLines(route.id);
+      const engines = route.shipId ? await storage.getShipEngines(route.shipId) : [];
+
+      const response: RouteFuelLinesResponse = {
+        routeId,
+        lines,
+        breakdown: lines.length > 0 ? calculateFuelLinesIntensity(fuelCatalogue, lines, engines) : null,
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/routes/:routeId/fuels", async (req, res, next) => {
+    try {
+      const { routeId } = routeIdParamsSchema.parse(req.params);
+      const { lines } = routeFuelLinesSchema.parse(req.body);
+
+      const route = await storage.getRouteByRouteId(routeId);
+      const fuelLines = lines.map(line => ({
+        routeId: route.id,
+        fuelType: fuelCatalogue.get(line.fuelType).name,
+        massTonnes: line.massTonnes,
+        consumer: line.consumer ?? null,
+      }));
+
+      // Keep the route's totals in step with its lines
+      const engines = route.shipId ? await storage.getShipEngines(route.shipId) : [];
+      const breakdown = fuelLines.length > 0
+        ? calculateFuelLinesIntensity(fuelCatalogue, fuelLines, engines)
+        : null;
+      const routeUpdates = breakdown
+        ? {
+            fuelType: breakdown.fuels.reduce((a, b) => (b.energyMJ > a.energyMJ ? b : a)).fuelType,
+            fuelConsumption: fuelLines.reduce((sum, l) => sum + l.massTonnes, 0),
+            ghgIntensity: breakdown.ghgIntensity,
+          }
+        : undefined;
+
+      const saved = await storage.replaceRouteFuelLines(route.id, fuelLines, routeUpdates);
+
+      // Fuel lines feed the CB even when the route totals stay the same
+      if (route.shipId) {
+        await recomputeBalances(
+          [{ shipId: route.shipId, year: route.year }],
+          actorOf(req),
+          `Recomputed after fuel lines of route ${route.routeId} were replaced`
+        );
+      }
+
+      const response: RouteFuelLinesResponse = { routeId, lines: saved, breakdown };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Target intensity trajectory
+  app.get("/api/compliance/targets", async (req, res, next) => {
+    try {
+      const targets: TargetIntensityResponse[] = TARGET_REDUCTION_SCHEDULE.map(step => ({
+        year: step.fromYear,
+        referenceIntensity: REFERENCE_INTENSITY,
+        reductionPercent: step.reduction * 100,
+        targetIntensity: getTargetIntensity(step.fromYear),
+      }));
+      res.json(targets);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/compliance/target", async (req, res, next) => {
+    try {
+      const { year: reportingYear } = yearQuerySchema.parse(req.query);
+      const target: TargetIntensityResponse = {
+        year: reportingYear,
+        referenceIntensity: REFERENCE_INTENSITY,
+        reductionPercent: getTargetReduction(reportingYear) * 100,
+        targetIntensity: getTargetIntensity(reportingYear),
+      };
+      res.json(target);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Compliance balance endpoint
+  app.get("/api/compliance/cb", async (req, res, next) => {
+    try {
+      const { shipId, year: reportingYear } = complianceBalanceQuerySchema.parse(req.query);
+
+      // A ship that is not registered has no routes, so its CB is zero and nothing is recorded
+      const ship = await storage.getShipByImo(shipId).catch(error => {
+        if (error instanceof NotFoundError) return undefined;
+        throw error;
+      });
+      if (!ship) {
+        const response: ComplianceBalanceResponse = {
+          shipId,
+          year: reportingYear,
+          cb: 0,
+          computedCb: 0,
+          borrowingRepayment: 0,
+          rounding: BALANCE_ROUNDING,
+        };
+        return res.json(response);
+      }
+
+      const { cb, computedCb, borrowingRepayment, rfnbo } = await recordComputedBalance(
+        shipId,
+        reportingYear,
+        actorOf(req)
       );
 
-      const baseCB = compliance?.cbGco2eq || 0;
-      const adjustedCB = baseCB + totalBanked;
+      const response: ComplianceBalanceResponse = {
+        shipId,
+        year: reportingYear,
+        cb,
+        computedCb,
+        borrowingRepayment,
+        rfnbo,
+        rounding: BALANCE_ROUNDING,
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Remedial penalty for a deficit
+  app.get("/api/compliance/penalty", async (req, res, next) => {
+    try {
+      const { shipId, year: reportingYear } = shipYearQuerySchema.parse(req.query);
 
-      res.json({
+      const details = await computeShipCompliance(shipId, reportingYear);
+      const { ghgIntensity: actualIntensity, rfnbo } = details;
+
+      const history = await storage.getShipComplianceHistory(shipId, 100);
+      const current = history.find(record => record.year === reportingYear);
+      const cb = current?.cbGco2eq ?? 0;
+
+      const breakdown = calculatePenalty(
+        cb,
+        actualIntensity,
+        countConsecutiveDeficitYears(history, reportingYear)
+      );
+
+      const response: PenaltyResponse = {
         shipId,
-        year: parseInt(year as string),
-        cb: adjustedCB,
-        cbBefore: baseCB,
-        applied: totalBanked,
-      });
+        year: reportingYear,
+        cb,
+        actualIntensity,
+        ...breakdown,
+        rfnboPenalty: rfnbo.penalty,
+      };
+      res.json(response);
     } catch (error) {
-      handleError(res, error, "Failed to fetch adjusted CB");
+      next(error);
     }
   });
 
-  // ✅ Banking endpoints
-  app.get("/api/banking/records", async (req, res) => {
+  // ✅ Ship registry (IMO number)
+  app.get("/api/ships", async (req, res, next) => {
     try {
-      const { shipId, year } = req.query;
-      if (!shipId || !year)
-        return res.status(400).json({ error: "shipId and year are required" });
+      const allShips = await storage.getAllShips();
+      res.json(allShips);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const records = await storage.getBankEntries(
-        shipId as string,
-        parseInt(year as string)
+  app.get("/api/ships/:shipId", async (req, res, next) => {
+    try {
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const ship = await storage.getShipByImo(shipId);
+      res.json(ship);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/ships", async (req, res, next) => {
+    try {
+      const ship = await storage.createShip(insertShipSchema.parse(req.body));
+      res.status(201).json(ship);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Ship management assignments
+  app.get("/api/ships/:shipId/assignments", async (req, res, next) => {
+    try {
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const assignments = await storage.getShipAssignments(shipId);
+      res.json(assignments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/ships/:shipId/assignments", async (req, res, next) => {
+    try {
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const assignment = await storage.assignShipToCompany(
+        insertShipCompanyAssignmentSchema.parse({ ...req.body, shipId })
       );
-      res.json(records);
+      res.status(201).json(assignment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Engine/consumer registry per ship
+  app.get("/api/ships/:shipId/engines", async (req, res, next) => {
+    try {
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const engines = await storage.getShipEngines(shipId);
+      res.json(engines);
     } catch (error) {
-      handleError(res, error, "Failed to fetch banking records");
+      next(error);
     }
   });
 
-  app.post("/api/banking/bank", async (req, res) => {
+  app.post("/api/ships/:shipId/engines", async (req, res, next) => {
     try {
-      const { shipId, year, amount } = req.body;
-      if (!shipId || !year || !amount)
-        return res.status(400).json({ error: "shipId, year, and amount are required" });
+      const { shipId } = shipIdParamsSchema.parse(req.params);
+      const engine = await storage.createShipEngine(insertShipEngineSchema.parse({ ...req.body, shipId }));
+      res.status(201).json(engine);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (amount <= 0)
-        return res.status(400).json({ error: "Amount must be positive" });
+  app.delete("/api/ships/:shipId/engines/:engineId", async (req, res, next) => {
+    try {
+      const { engineId } = engineParamsSchema.parse(req.params);
+      await storage.deleteShipEngine(engineId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const compliance = await storage.getShipCompliance(shipId, year);
-      const currentCB = compliance?.cbGco2eq || 0;
+  // ✅ Companies (ISM managers)
+  app.get("/api/companies", async (req, res, next) => {
+    try {
+      const allCompanies = await storage.getAllCompanies();
+      res.json(allCompanies);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (currentCB <= 0)
-        return res.status(400).json({ error: "Cannot bank surplus when CB <= 0" });
+  app.post("/api/companies", async (req, res, next) => {
+    try {
+      const company = await storage.createCompany(insertCompanySchema.parse(req.body));
+      res.status(201).json(company);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (amount > currentCB)
-        return res.status(400).json({ error: "Amount exceeds available surplus" });
+  // ✅ Fleet-level compliance position per year
+  app.get("/api/companies/:id/summary", async (req, res, next) => {
+    try {
+      const { id: companyId } = idParamsSchema.parse(req.params);
+      const company = await storage.getCompanyById(companyId);
 
-      const entry = await storage.createBankEntry({
+      const fleetIds = Array.from(new Set(
+        (await storage.getCompanyAssignments(companyId)).map(a => a.shipId)
+      ));
+
+      const positionsByYear = new Map<number, ShipYearPosition[]>();
+      for (const shipId of fleetIds) {
+        const shipAssignments = await storage.getShipAssignments(shipId);
+        const history = await storage.getShipComplianceHistory(shipId, 100);
+        const years = Array.from(new Set([
+          ...(await storage.getRoutesByShip(shipId)).map(r => r.year),
+          ...history.map(record => record.year),
+        ]));
+
+        for (const year of years) {
+          if (findResponsibleCompany(shipAssignments, year) !== companyId) continue;
+
+          // Balances and penalties are those recorded, after banking, borrowing and
+          // pooling, as reported by /api/compliance/penalty
+          const { ghgIntensity, rfnbo } = await computeShipCompliance(shipId, year);
+          const cb = history.find(record => record.year === year)?.cbGco2eq ?? 0;
+          const { penalty } = calculatePenalty(
+            cb,
+            ghgIntensity,
+            countConsecutiveDeficitYears(history, year)
+          );
+
+          const positions = positionsByYear.get(year) ?? [];
+          positions.push({
+            shipId,
+            cb,
+            banked: await storage.getTotalBanked(shipId, year),
+            borrowed: await storage.getTotalBorrowed(shipId, year),
+            penalty: penalty + rfnbo.penalty,
+          });
+          positionsByYear.set(year, positions);
+        }
+      }
+
+      const years = Array.from(positionsByYear.keys())
+        .sort((a, b) => a - b)
+        .map(year => summarizeFleetYear(year, positionsByYear.get(year)!));
+      const ships = Array.from(new Set(
+        Array.from(positionsByYear.values()).flat().map(p => p.shipId)
+      ));
+
+      const response: CompanySummaryResponse = { company, ships, years, rounding: BALANCE_ROUNDING };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Port calls (onshore power supply)
+  app.get("/api/port-calls", async (req, res, next) => {
+    try {
+      const { shipId, year } = shipYearQuerySchema.parse(req.query);
+      const calls = await storage.getPortCalls(shipId, year);
+      res.json(calls);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/port-calls", async (req, res, next) => {
+    try {
+      const portCall = await storage.createPortCall(insertPortCallSchema.parse(req.body));
+      res.status(201).json(portCall);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ OPS compliance per ship per year
+  app.get("/api/compliance/ops", async (req, res, next) => {
+    try {
+      const { shipId, year: reportingYear } = shipYearQuerySchema.parse(req.query);
+      const ship = await storage.getShipByImo(shipId);
+
+      const calls = await storage.getPortCalls(shipId, reportingYear);
+      const summary = summarizeOpsCompliance(calls, ship.vesselType, reportingYear);
+
+      const response: OpsComplianceResponse = {
+        shipId,
+        year: reportingYear,
+        vesselType: ship.vesselType,
+        ...summary,
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ✅ Adjusted CB after banking
+  app.get("/api/compliance/adjusted-cb", async (req, res, next) => {
+    try {
+      const { shipId, year } = shipYearQuerySchema.parse(req.query);
+      const ledger = await storage.getLedgerEntries(shipId, year);
+      const baseCB = projectComputedBalance(ledger);
+      const adjustedCB = ledger.length > 0 ? ledger[ledger.length - 1].cbAfter : 0;
+
+      res.json({
         shipId,
         year,
-        amountGco2eq: amount,
+        cb: adjustedCB,
+        cbBefore: baseCB,
+        applied: adjustedCB - baseCB,
+        rounding: BALANCE_ROUNDING,
       });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      await storage.updateShipCompliance(compliance!.id, currentCB - amount);
+  // ✅ Compliance ledger with replay check for verifiers
+  app.get("/api/compliance/ledger", async (req, res, next) => {
+    try {
+      const { shipId, year } = shipYearQuerySchema.parse(req.query);
+      const entries = await storage.getLedgerEntries(shipId, year);
+      const { balance, consistent, discrepancies } = verifyLedger(entries);
 
-      res.json({ success: true, entry });
+      const response: ComplianceLedgerResponse = {
+        shipId,
+        year,
+        entries,
+        balance,
+        computedBalance: projectComputedBalance(entries),
+        consistent,
+        discrepancies,
+        rounding: BALANCE_ROUNDING,
+      };
+      res.json(response);
     } catch (error) {
-      handleError(res, error, "Failed to bank surplus");
+      next(error);
     }
   });
 
-  app.post("/api/banking/apply", async (req, res) => {
+  // ✅ Banking endpoints
+  app.get("/api/banking/records", async (req, res, next) => {
     try {
-      const { shipId, year, amount } = req.body;
-      if (!shipId || !year || !amount)
-        return res.status(400).json({ error: "shipId, year, and amount are required" });
+      const { shipId, year } = shipYearQuerySchema.parse(req.query);
+      const records = await storage.getBankEntries(shipId, year);
+      res.json(records);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (amount <= 0)
-        return res.status(400).json({ error: "Amount must be positive" });
+  app.get("/api/banking/balances", async (req, res, next) => {
+    try {
+      const { shipId } = shipQuerySchema.parse(req.query);
+      const balances = await storage.getBankBalances(shipId);
+      res.json(balances);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      const totalBanked = await storage.getTotalBanked(shipId, year);
-      if (amount > totalBanked)
-        return res.status(400).json({ error: "Amount exceeds available banked surplus" });
+  app.post("/api/banking/bank", async (req, res, next) => {
+    try {
+      // Amounts arrive rounded to whole grams
+      const { shipId, year, amount, reason } = balanceOperationSchema.parse(req.body);
 
-      const entry = await storage.createBankEntry({
+      // CB check, bank entry and ledger entry commit together
+      const { entry, ledgerEntry } = await storage.bankSurplus({
         shipId,
         year,
-        amountGco2eq: -amount,
+        amount,
+        actor: actorOf(req),
+        reason: reason || "Banked surplus (Article 20(1))",
       });
 
-      const compliance = await storage.getShipCompliance(shipId, year);
-      if (compliance)
-        await storage.updateShipCompliance(compliance.id, compliance.cbGco2eq + amount);
+      res.json({ success: true, entry, ledgerEntry, rounding: BALANCE_ROUNDING });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/banking/apply", async (req, res, next) => {
+    try {
+      // Amounts arrive rounded to whole grams
+      const { shipId, year, amount, reason } = balanceOperationSchema.parse(req.body);
+
+      // Draws oldest-first from banked surplus; all draws and the ledger entry commit together
+      const { entries, ledgerEntry } = await storage.applyBankedSurplus({
+        shipId,
+        year,
+        amount,
+        actor: actorOf(req),
+        reason: reason || "Applied banked surplus (Article 20(2))",
+      });
 
-      res.json({ success: true, entry });
+      res.json({ success: true, entries, ledgerEntry, rounding: BALANCE_ROUNDING });
     } catch (error) {
-      handleError(res, error, "Failed to apply banked surplus");
+      next(error);
     }
   });
 
-  // ✅ Pool creation
-  app.post("/api/pools", async (req, res) => {
+  app.post("/api/banking/borrow", async (req, res, next) => {
     try {
-      const { year, members } = req.body as PoolCreationRequest;
-      if (!year || !members || members.length < 2)
-        return res.status(400).json({ error: "Pool requires year and at least 2 members" });
+      // Amounts arrive rounded to whole grams
+      const { shipId, year, amount, reason } = balanceOperationSchema.parse(req.body);
 
-      const verifiedMembers = [];
+      const { energyInScope } = await computeShipCompliance(shipId, year);
 
-      for (const member of members) {
-        const route = await storage.getRouteByRouteId(member.shipId);
-        if (!route)
-          return res.status(400).json({ error: `Route not found for ship ${member.shipId}` });
+      const { entry, ledgerEntry } = await storage.borrowSurplus({
+        shipId,
+        year,
+        amount,
+        actor: actorOf(req),
+        reason: reason || "Borrowed advance surplus (Article 20(3))",
+      }, calculateBorrowingLimit(year, energyInScope));
 
-        const actualCB = calculateComplianceBalance(
-          route.ghgIntensity,
-          route.fuelConsumption
-        );
+      res.json({
+        success: true,
+        entry,
+        ledgerEntry,
+        repaymentDue: calculateBorrowingRepayment(amount),
+        repaymentYear: year + 1,
+        rounding: BALANCE_ROUNDING,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
 
-        const compliance = await storage.getShipCompliance(member.shipId, year);
-        const cbToUse = compliance?.cbGco2eq ?? actualCB;
+  // ✅ Pool creation
+  app.post("/api/pools", async (req, res, next) => {
+    try {
+      const { year, members } = poolCreationSchema.parse(req.body);
 
-        verifiedMembers.push({ shipId: member.shipId, cbBefore: cbToUse });
+      // CB from routes net of borrowing repayment, used for ships without a recorded balance
+      const computedMembers = [];
+      for (const member of members) {
+        const { cb } = await computeShipBalance(member.shipId, year);
+        computedMembers.push({ shipId: member.shipId, computedCb: cb });
       }
 
-      const allocated = allocatePoolBalances(verifiedMembers);
-      const validation = validatePool(allocated);
-      if (!validation.valid)
-        return res.status(400).json({ error: "Pool validation failed", errors: validation.errors });
-
-      const pool = await storage.createPool({ year });
-      for (const member of allocated) {
-        await storage.createPoolMember({
-          poolId: pool.id,
-          shipId: member.shipId,
-          cbBefore: member.cbBefore,
-          cbAfter: member.cbAfter,
-        });
-      }
+      // Allocation, pool, members and ledger entries commit together
+      const { pool, members: allocated } = await storage.createPoolWithMembers(year, computedMembers, actorOf(req));
 
-      const totalSum = verifiedMembers.reduce((sum, m) => sum + m.cbBefore, 0);
-      res.json({
+      const response: PoolCreationResponse = {
         poolId: pool.id,
         members: allocated,
-        totalSum,
+        totalSum: sumGrams(allocated.map(m => m.cbBefore)),
         valid: true,
-      });
+        rounding: BALANCE_ROUNDING,
+      };
+      res.json(response);
     } catch (error) {
-      handleError(res, error, "Failed to create pool");
+      next(error);
     }
   });
 
@@ -0,0 +1,22 @@
+// Storage errors shared by every IStorage adapter
+export class StorageError extends Error {
+  constructor(message: string, public originalError?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export class NotFoundError extends StorageError {
+  constructor(resource: string, id: string) {
+    super(`${resource} with ID ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+// errors lists every rule that failed when a check reports several at once
+export class ValidationError extends StorageError {
+  constructor(message: string, public errors: string[] = [message]) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -1,51 +1,142 @@
 // Storage interface implementation following hexagonal architecture
 // Core domain layer - implements persistence ports
 import { 
+  companies,
+  shipCompanyAssignments,
+  ships,
   routes, 
+  voyages,
+  routeFuelLines,
+  portCalls,
+  shipEngines,
+  bunkerDeliveryNotes,
+  complianceLedger,
   shipCompliance, 
   bankEntries, 
   pools, 
   poolMembers,
+  type Company,
+  type InsertCompany,
+  type ShipCompanyAssignment,
+  type InsertShipCompanyAssignment,
+  type Ship,
+  type InsertShip,
   type Route, 
   type InsertRoute,
+  type RouteFacets,
+  type RouteFilters,
+  type RouteSortField,
+  type SortOrder,
+  type Voyage,
+  type InsertVoyage,
+  type RouteFuelLine,
+  type InsertRouteFuelLine,
+  type PortCall,
+  type InsertPortCall,
+  type ShipEngine,
+  type InsertShipEngine,
+  type BunkerDeliveryNote,
+  type InsertBunkerDeliveryNote,
+  type LedgerEntry,
+  type InsertLedgerEntry,
   type ShipCompliance,
-  type InsertShipCompliance,
   type BankEntry,
   type InsertBankEntry,
+  type BankBalance,
   type Pool,
   type InsertPool,
   type PoolMember,
-  type InsertPoolMember
+  type InsertPoolMember,
+  type PoolCreationResponse
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { fuelCatalogue } from "./fuels";
+import { isValidImoNumber } from "./domain/ship-service";
+import { assignmentsOverlap } from "./domain/fleet-service";
+import { portReference, InvalidLocodeError } from "./domain/port-reference";
+import {
+  aggregateVoyages,
+  deriveReportingYear,
+  deriveVoyageScope,
+  validateVoyage
+} from "./domain/voyage-service";
+import { validateBdn } from "./domain/bunker-service";
+import { calculateComputationDelta, chainLedgerEntry } from "./domain/ledger-service";
+import {
+  allocateBankedSurplus,
+  calculateBorrowingRepayment,
+  validateBorrowing
+} from "./domain/banking-service";
+import { allocatePoolBalances, validatePool } from "./domain/pooling-service";
+import { StorageError, NotFoundError, ValidationError } from "./storage-errors";
+import { MemStorage } from "./mem-storage";
+import { eq, and, asc, desc, sql, inArray, gte, lte } from "drizzle-orm";
+
+// Error classes are shared by every adapter
+export { StorageError, NotFoundError, ValidationError } from "./storage-errors";
+
+// A ledger-changing banking request; amount in whole gCO2eq
+export interface BalanceOperation {
+  shipId: string;
+  year: number;
+  amount: number;
+  actor: string;
+  reason: string;
+}
 
-// Custom error classes
-export class StorageError extends Error {
-  constructor(message: string, public originalError?: unknown) {
-    super(message);
-    this.name = 'StorageError';
-  }
+// A CB computed from route data; reason defaults to "(Re)computed from route data"
+export interface ComputedBalance {
+  shipId: string;
+  year: number;
+  computedCb: number;
+  actor: string;
+  reason?: string;
+  details: InsertLedgerEntry["details"];
 }
 
-export class NotFoundError extends StorageError {
-  constructor(resource: string, id: string) {
-    super(`${resource} with ID ${id} not found`);
-    this.name = 'NotFoundError';
-  }
+export type PoolAllocation = PoolCreationResponse["members"][number];
+
+// Keyset position after the last row of a page: its sort value and id
+export interface RouteCursor {
+  value: string | number;
+  id: number;
 }
 
-export class ValidationError extends StorageError {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ValidationError';
-  }
+// Filtered, sorted page of routes; id breaks ties so the order is total
+export interface RouteQuery extends RouteFilters {
+  sort: RouteSortField;
+  order: SortOrder;
+  limit: number;
+  after?: RouteCursor;
+}
+
+export interface RouteQueryResult {
+  routes: Route[];
+  total: number; // Matching routes, ignoring the cursor and limit
+  hasMore: boolean;
 }
 
 // Storage interface - defines ports for data operations
 export interface IStorage {
+  // Companies
+  getAllCompanies(): Promise<Company[]>;
+  getCompanyById(id: number): Promise<Company>;
+  createCompany(company: InsertCompany): Promise<Company>;
+  getCompanyAssignments(companyId: number): Promise<ShipCompanyAssignment[]>;
+  getShipAssignments(shipId: string): Promise<ShipCompanyAssignment[]>;
+  assignShipToCompany(assignment: InsertShipCompanyAssignment): Promise<ShipCompanyAssignment>;
+
+  // Ships
+  getAllShips(): Promise<Ship[]>;
+  getShipByImo(imoNumber: string): Promise<Ship>;
+  createShip(ship: InsertShip): Promise<Ship>;
+  updateShip(imoNumber: string, updates: Partial<InsertShip>): Promise<Ship>;
+  getRoutesByShip(shipId: string, year?: number): Promise<Route[]>;
+
   // Routes
   getAllRoutes(): Promise<Route[]>;
+  queryRoutes(query: RouteQuery): Promise<RouteQueryResult>;
+  getRouteFacets(): Promise<RouteFacets>;
   getRouteById(id: string): Promise<Route>;
   getRouteByRouteId(routeId: string): Promise<Route>;
   createRoute(route: InsertRoute): Promise<Route>;
@@ -55,12 +146,43 @@ export interface IStorage {
   getBaselineRoute(): Promise<Route | undefined>;
   getRoutesByYear(year: number): Promise<Route[]>;
 
+  // Voyages
+  getVoyages(shipId: string, year?: number): Promise<Voyage[]>;
+  getRouteVoyages(routeId: number): Promise<Voyage[]>;
+  getVoyage(id: number): Promise<Voyage>;
+  createVoyage(voyage: InsertVoyage): Promise<Voyage>;
+  deleteVoyage(id: number): Promise<void>;
+
+  // Route Fuel Lines
+  getRouteFuelLines(routeId: number): Promise<RouteFuelLine[]>;
+  replaceRouteFuelLines(
+    routeId: number,
+    lines: InsertRouteFuelLine[],
+    routeUpdates?: Partial<InsertRoute>
+  ): Promise<RouteFuelLine[]>;
+
+  // Port Calls
+  getPortCalls(shipId: string, year: number): Promise<PortCall[]>;
+  createPortCall(portCall: InsertPortCall): Promise<PortCall>;
+  deletePortCall(id: number): Promise<void>;
+
+  // Ship Engines
+  getShipEngines(shipId: string): Promise<ShipEngine[]>;
+  createShipEngine(engine: InsertShipEngine): Promise<ShipEngine>;
+  deleteShipEngine(id: number): Promise<void>;
+
+  // Bunker Delivery Notes
+  getBunkerDeliveryNotes(shipId?: string, year?: number): Promise<BunkerDeliveryNote[]>;
+  createBunkerDeliveryNotes(notes: InsertBunkerDeliveryNote[]): Promise<BunkerDeliveryNote[]>;
+  deleteBunkerDeliveryNote(id: number): Promise<void>;
+
   // Ship Compliance
   getShipCompliance(shipId: string, year: number): Promise<ShipCompliance | undefined>;
   getShipComplianceHistory(shipId: string, limit?: number): Promise<ShipCompliance[]>;
-  createShipCompliance(compliance: InsertShipCompliance): Promise<ShipCompliance>;
-  updateShipCompliance(id: string, updates: Partial<ShipCompliance>): Promise<ShipCompliance>;
-  deleteShipCompliance(id: string): Promise<void>;
+
+  // Compliance Ledger (append-only; ship compliance above is its projection)
+  getLedgerEntries(shipId: string, year?: number): Promise<LedgerEntry[]>;
+  appendLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry>;
 
   // Bank Entries
   getBankEntries(shipId: string, year: number): Promise<BankEntry[]>;
@@ -69,7 +191,9 @@ export interface IStorage {
   updateBankEntry(id: string, updates: Partial<InsertBankEntry>): Promise<BankEntry>;
   deleteBankEntry(id: string): Promise<void>;
   getTotalBanked(shipId: string, year: number): Promise<number>;
+  getTotalBorrowed(shipId: string, year: number): Promise<number>;
   getBankSummary(shipId: string, startYear: number, endYear: number): Promise<{ year: number; total: number }[]>;
+  getBankBalances(shipId: string): Promise<BankBalance[]>;
 
   // Pools
   createPool(pool: InsertPool): Promise<Pool>;
@@ -82,10 +206,239 @@ export interface IStorage {
   getPoolMemberById(id: string): Promise<PoolMember>;
   removePoolMember(id: string): Promise<void>;
   getPoolsByShip(shipId: string): Promise<Pool[]>;
+
+  // Banking and pooling workflows - each runs as one transaction with the ships
+  // involved locked, so concurrent requests cannot spend the same balance twice.
+  // Rule violations throw ValidationError and leave nothing behind
+  bankSurplus(operation: BalanceOperation): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }>;
+  applyBankedSurplus(operation: BalanceOperation): Promise<{ entries: BankEntry[]; ledgerEntry: LedgerEntry }>;
+  borrowSurplus(operation: BalanceOperation, limit: number): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }>;
+  // Appends only the change since the last computation; returns the ship's CB afterwards
+  recordComputedBalance(computed: ComputedBalance): Promise<number>;
+  createPoolWithMembers(
+    year: number,
+    members: Array<{ shipId: string; computedCb: number }>, // computedCb is used when a ship has no recorded CB
+    actor: string
+  ): Promise<{ pool: Pool; members: PoolAllocation[] }>;
 }
 
+// Drizzle transaction handle, passed to helpers that run inside db.transaction
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // DatabaseStorage - adapter implementation for PostgreSQL
 export class DatabaseStorage implements IStorage {
+  // Companies
+  async getAllCompanies(): Promise<Company[]> {
+    try {
+      return await db.select().from(companies).orderBy(companies.name);
+    } catch (error) {
+      throw new StorageError('Failed to fetch companies', error);
+    }
+  }
+
+  async getCompanyById(id: number): Promise<Company> {
+    try {
+      const [company] = await db.select().from(companies).where(eq(companies.id, id));
+      if (!company) {
+        throw new NotFoundError('Company', String(id));
+      }
+      return company;
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to fetch company with id ${id}`, error);
+    }
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    try {
+      if (!insertCompany.name?.trim()) {
+        throw new ValidationError('Company name is required');
+      }
+      if (insertCompany.imoCompanyNumber && !/^\d{7}$/.test(insertCompany.imoCompanyNumber)) {
+        throw new ValidationError(`Invalid IMO company number ${insertCompany.imoCompanyNumber}`);
+      }
+
+      const [company] = await db
+        .insert(companies)
+        .values(insertCompany)
+        .returning();
+
+      if (!company) {
+        throw new StorageError('Failed to create company - no data returned');
+      }
+
+      return company;
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError('Failed to create company', error);
+    }
+  }
+
+  async getCompanyAssignments(companyId: number): Promise<ShipCompanyAssignment[]> {
+    try {
+      return await db
+        .select()
+        .from(shipCompanyAssignments)
+        .where(eq(shipCompanyAssignments.companyId, companyId))
+        .orderBy(shipCompanyAssignments.shipId, shipCompanyAssignments.effectiveFrom);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch assignments for company ${companyId}`, error);
+    }
+  }
+
+  async getShipAssignments(shipId: string): Promise<ShipCompanyAssignment[]> {
+    try {
+      return await db
+        .select()
+        .from(shipCompanyAssignments)
+        .where(eq(shipCompanyAssignments.shipId, shipId))
+        .orderBy(shipCompanyAssignments.effectiveFrom);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch assignments for ship ${shipId}`, error);
+    }
+  }
+
+  async assignShipToCompany(assignment: InsertShipCompanyAssignment): Promise<ShipCompanyAssignment> {
+    try {
+      const effectiveTo = assignment.effectiveTo ?? null;
+      if (effectiveTo !== null && effectiveTo <= assignment.effectiveFrom) {
+        throw new ValidationError('effectiveTo must be after effectiveFrom');
+      }
+
+      await this.getShipByImo(assignment.shipId);
+      await this.getCompanyById(assignment.companyId);
+
+      return await db.transaction(async (tx) => {
+        const existing = await tx
+          .select()
+          .from(shipCompanyAssignments)
+          .where(eq(shipCompanyAssignments.shipId, assignment.shipId));
+
+        for (const current of existing) {
+          // An open-ended assignment that started earlier is closed at the handover date
+          if (current.effectiveTo === null && current.effectiveFrom < assignment.effectiveFrom) {
+            await tx
+              .update(shipCompanyAssignments)
+              .set({ effectiveTo: assignment.effectiveFrom })
+              .where(eq(shipCompanyAssignments.id, current.id));
+            continue;
+          }
+
+          if (assignmentsOverlap(current, { ...assignment, effectiveTo })) {
+            throw new ValidationError(
+              `Ship ${assignment.shipId} is already assigned to company ${current.companyId} from ${current.effectiveFrom}`
+            );
+          }
+        }
+
+        const [created] = await tx
+          .insert(shipCompanyAssignments)
+          .values({ ...assignment, effectiveTo })
+          .returning();
+
+        if (!created) {
+          throw new StorageError('Failed to assign ship - no data returned');
+        }
+
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to assign ship ${assignment.shipId} to company ${assignment.companyId}`, error);
+    }
+  }
+
+  // Ships
+  async getAllShips(): Promise<Ship[]> {
+    try {
+      return await db.select().from(ships).orderBy(ships.name);
+    } catch (error) {
+      throw new StorageError('Failed to fetch ships', error);
+    }
+  }
+
+  async getShipByImo(imoNumber: string): Promise<Ship> {
+    try {
+      const [ship] = await db.select().from(ships).where(eq(ships.imoNumber, imoNumber));
+      if (!ship) {
+        throw new NotFoundError('Ship', imoNumber);
+      }
+      return ship;
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to fetch ship with IMO ${imoNumber}`, error);
+    }
+  }
+
+  async createShip(insertShip: InsertShip): Promise<Ship> {
+    try {
+      if (!isValidImoNumber(insertShip.imoNumber ?? '')) {
+        throw new ValidationError(`Invalid IMO number ${insertShip.imoNumber}`);
+      }
+      if (!insertShip.name?.trim()) {
+        throw new ValidationError('Ship name is required');
+      }
+
+      const [existing] = await db.select().from(ships).where(eq(ships.imoNumber, insertShip.imoNumber));
+      if (existing) {
+        throw new ValidationError(`Ship with IMO ${insertShip.imoNumber} already exists`);
+      }
+
+      const [ship] = await db
+        .insert(ships)
+        .values(insertShip)
+        .returning();
+
+      if (!ship) {
+        throw new StorageError('Failed to create ship - no data returned');
+      }
+
+      return ship;
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError('Failed to create ship', error);
+    }
+  }
+
+  async updateShip(imoNumber: string, updates: Partial<InsertShip>): Promise<Ship> {
+    try {
+      if (updates.imoNumber !== undefined && updates.imoNumber !== imoNumber) {
+        throw new ValidationError('IMO number cannot be changed');
+      }
+
+      const [ship] = await db
+        .update(ships)
+        .set(updates)
+        .where(eq(ships.imoNumber, imoNumber))
+        .returning();
+
+      if (!ship) {
+        throw new NotFoundError('Ship', imoNumber);
+      }
+
+      return ship;
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
+      throw new StorageError(`Failed to update ship with IMO ${imoNumber}`, error);
+    }
+  }
+
+  async getRoutesByShip(shipId: string, year?: number): Promise<Route[]> {
+    try {
+      const conditions = year === undefined
+        ? eq(routes.shipId, shipId)
+        : and(eq(routes.shipId, shipId), eq(routes.year, year));
+
+      return await db
+        .select()
+        .from(routes)
+        .where(conditions)
+        .orderBy(routes.year, routes.routeId);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch routes for ship ${shipId}`, error);
+    }
+  }
+
   // Routes
   async getAllRoutes(): Promise<Route[]> {
     try {
@@ -95,6 +448,62 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async queryRoutes(query: RouteQuery): Promise<RouteQueryResult> {
+    try {
+      const conditions = [];
+      if (query.shipId !== undefined) conditions.push(eq(routes.shipId, query.shipId));
+      if (query.vesselType !== undefined) conditions.push(eq(routes.vesselType, query.vesselType));
+      if (query.fuelType !== undefined) conditions.push(eq(routes.fuelType, query.fuelType));
+      if (query.yearFrom !== undefined) conditions.push(gte(routes.year, query.yearFrom));
+      if (query.yearTo !== undefined) conditions.push(lte(routes.year, query.yearTo));
+      if (query.intensityMin !== undefined) conditions.push(gte(routes.ghgIntensity, query.intensityMin));
+      if (query.intensityMax !== undefined) conditions.push(lte(routes.ghgIntensity, query.intensityMax));
+      const filters = and(...conditions);
+
+      const column = routes[query.sort];
+      const direction = query.order === "desc" ? desc : asc;
+
+      // Row comparison continues after the cursor in the same (column, id) order
+      const keyset = query.after
+        ? (query.order === "desc"
+            ? sql`(${column}, ${routes.id}) < (${query.after.value}, ${query.after.id})`
+            : sql`(${column}, ${routes.id}) > (${query.after.value}, ${query.after.id})`)
+        : undefined;
+
+      const rows = await db
+        .select()
+        .from(routes)
+        .where(and(filters, keyset))
+        .orderBy(direction(column), direction(routes.id))
+        .limit(query.limit + 1);
+
+      const [{ total }] = await db
+        .select({ total: sql<number>`COUNT(*)`.mapWith(Number) })
+        .from(routes)
+        .where(filters);
+
+      return { routes: rows.slice(0, query.limit), total, hasMore: rows.length > query.limit };
+    } catch (error) {
+      throw new StorageError('Failed to query routes', error);
+    }
+  }
+
+  async getRouteFacets(): Promise<RouteFacets> {
+    try {
+      const vesselTypes = await db.selectDistinct({ value: routes.vesselType }).from(routes).orderBy(routes.vesselType);
+      const fuelTypes = await db.selectDistinct({ value: routes.fuelType }).from(routes).orderBy(routes.fuelType);
+      const years = await db.selectDistinct({ value: routes.year }).from(routes).orderBy(routes.year);
+
+      return {
+        vesselTypes: vesselTypes.map(row => row.value),
+        fuelTypes: fuelTypes.map(row => row.value),
+        years: years.map(row => row.value),
+      };
+    } catch (error) {
+      throw new StorageError('Failed to fetch route facets', error);
+    }
+  }
+
   async getRouteById(id: string): Promise<Route> {
     try {
       const [route] = await db.select().from(routes).where(eq(routes.id, id));
@@ -130,6 +539,10 @@ export class DatabaseStorage implements IStorage {
       if (!insertRoute.year || insertRoute.year < 2000 || insertRoute.year > 2100) {
         throw new ValidationError('Valid year is required (2000-2100)');
       }
+      if (!fuelCatalogue.find(insertRoute.fuelType)) {
+        throw new ValidationError(`Unknown fuel type ${insertRoute.fuelType}`);
+      }
+      await this.assertRouteIdAvailable(insertRoute.routeId);
 
       const [route] = await db
         .insert(routes)
@@ -149,6 +562,13 @@ export class DatabaseStorage implements IStorage {
 
   async updateRoute(id: string, updates: Partial<InsertRoute>): Promise<Route> {
     try {
+      if (updates.fuelType !== undefined && !fuelCatalogue.find(updates.fuelType)) {
+        throw new ValidationError(`Unknown fuel type ${updates.fuelType}`);
+      }
+      if (updates.routeId !== undefined) {
+        await this.assertRouteIdAvailable(updates.routeId, Number(id));
+      }
+
       const [route] = await db
         .update(routes)
         .set(updates)
@@ -161,27 +581,51 @@ export class DatabaseStorage implements IStorage {
 
       return route;
     } catch (error) {
-      if (error instanceof NotFoundError) throw error;
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
       throw new StorageError(`Failed to update route with ID ${id}`, error);
     }
   }
 
   async deleteRoute(id: string): Promise<void> {
     try {
-      const [route] = await db
-        .delete(routes)
-        .where(eq(routes.id, id))
-        .returning();
+      await db.transaction(async (tx) => {
+        const [route] = await tx.select().from(routes).where(eq(routes.id, Number(id)));
+        if (!route) {
+          throw new NotFoundError('Route', id);
+        }
 
-      if (!route) {
-        throw new NotFoundError('Route', id);
-      }
+        // Records derived from the route's ship and period would lose their source;
+        // the ship lock keeps banking and pooling from adding one meanwhile
+        if (route.shipId) {
+          await this.lockShips(tx, [route.shipId]);
+          const references = await this.selectRouteReferences(tx, route.shipId, route.year);
+          if (references.length > 0) {
+            throw new ValidationError(
+              `Route ${route.routeId} is referenced by compliance records and cannot be deleted`,
+              references
+            );
+          }
+        }
+
+        await tx.delete(routes).where(eq(routes.id, route.id));
+      });
     } catch (error) {
-      if (error instanceof NotFoundError) throw error;
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
       throw new StorageError(`Failed to delete route with ID ${id}`, error);
     }
   }
 
+  private async assertRouteIdAvailable(routeId: string, exceptId?: number): Promise<void> {
+    const [existing] = await db
+      .select({ id: routes.id })
+      .from(routes)
+      .where(eq(routes.routeId, routeId));
+
+    if (existing && existing.id !== exceptId) {
+      throw new ValidationError(`Route ${routeId} already exists`);
+    }
+  }
+
   async setBaseline(routeId: string): Promise<void> {
     try {
       await db.transaction(async (tx) => {
@@ -226,91 +670,512 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Ship Compliance
-  async getShipCompliance(shipId: string, year: number): Promise<ShipCompliance | undefined> {
+  // Voyages
+  async getVoyages(shipId: string, year?: number): Promise<Voyage[]> {
     try {
-      const [compliance] = await db
+      const conditions = year === undefined
+        ? eq(voyages.shipId, shipId)
+        : and(eq(voyages.shipId, shipId), eq(voyages.year, year));
+
+      return await db
         .select()
-        .from(shipCompliance)
-        .where(and(eq(shipCompliance.shipId, shipId), eq(shipCompliance.year, year)));
+        .from(voyages)
+        .where(conditions)
+        .orderBy(voyages.departureAt);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch voyages for ship ${shipId}`, error);
+    }
+  }
 
-      return compliance || undefined;
+  async getRouteVoyages(routeId: number): Promise<Voyage[]> {
+    try {
+      return await db
+        .select()
+        .from(voyages)
+        .where(eq(voyages.routeId, routeId))
+        .orderBy(voyages.departureAt);
     } catch (error) {
-      throw new StorageError(`Failed to fetch compliance for ship ${shipId}, year ${year}`, error);
+      throw new StorageError(`Failed to fetch voyages for route ${routeId}`, error);
     }
   }
 
-  async getShipComplianceHistory(shipId: string, limit: number = 10): Promise<ShipCompliance[]> {
+  async getVoyage(id: number): Promise<Voyage> {
+    try {
+      const [voyage] = await db.select().from(voyages).where(eq(voyages.id, id));
+      if (!voyage) {
+        throw new NotFoundError('Voyage', String(id));
+      }
+      return voyage;
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to fetch voyage with id ${id}`, error);
+    }
+  }
+
+  async createVoyage(insertVoyage: InsertVoyage): Promise<Voyage> {
+    try {
+      const errors = validateVoyage(insertVoyage);
+      if (errors.length > 0) {
+        throw new ValidationError(errors.join('; '));
+      }
+
+      const departure = portReference.classify(insertVoyage.departurePort);
+      const arrival = portReference.classify(insertVoyage.arrivalPort);
+
+      await this.getShipByImo(insertVoyage.shipId);
+
+      return await db.transaction(async (tx) => {
+        const [voyage] = await tx
+          .insert(voyages)
+          .values({
+            ...insertVoyage,
+            departurePort: departure.locode,
+            arrivalPort: arrival.locode,
+            voyageScope: deriveVoyageScope(departure, arrival),
+            year: deriveReportingYear(insertVoyage.arrivalAt),
+          })
+          .returning();
+
+        if (!voyage) {
+          throw new StorageError('Failed to create voyage - no data returned');
+        }
+
+        if (voyage.routeId !== null) {
+          await this.syncRouteWithVoyages(tx, voyage.routeId, voyage.shipId);
+        }
+
+        return voyage;
+      });
+    } catch (error) {
+      if (error instanceof InvalidLocodeError) throw new ValidationError(error.message);
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to create voyage', error);
+    }
+  }
+
+  async deleteVoyage(id: number): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        const [deleted] = await tx
+          .delete(voyages)
+          .where(eq(voyages.id, id))
+          .returning();
+
+        if (!deleted) {
+          throw new NotFoundError('Voyage', String(id));
+        }
+
+        if (deleted.routeId !== null) {
+          await this.syncRouteWithVoyages(tx, deleted.routeId, deleted.shipId);
+        }
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) throw error;
+      throw new StorageError(`Failed to delete voyage with id ${id}`, error);
+    }
+  }
+
+  // Recompute a route's totals, period and scope from its voyages
+  private async syncRouteWithVoyages(
+    tx: Transaction,
+    routeId: number,
+    shipId: string
+  ): Promise<void> {
+    const [route] = await tx.select().from(routes).where(eq(routes.id, routeId));
+    if (!route) {
+      throw new NotFoundError('Route', String(routeId));
+    }
+    if (route.shipId !== null && route.shipId !== shipId) {
+      throw new ValidationError(`Route ${route.routeId} belongs to ship ${route.shipId}`);
+    }
+
+    const routeVoyages = await tx.select().from(voyages).where(eq(voyages.routeId, routeId));
+    if (routeVoyages.length === 0) return;
+
+    const { aggregate, errors } = aggregateVoyages(routeVoyages);
+    if (!aggregate) {
+      throw new ValidationError(errors.join('; '));
+    }
+
+    await tx
+      .update(routes)
+      .set({ ...aggregate, shipId })
+      .where(eq(routes.id, routeId));
+  }
+
+  // Route Fuel Lines
+  async getRouteFuelLines(routeId: number): Promise<RouteFuelLine[]> {
     try {
       return await db
         .select()
-        .from(shipCompliance)
-        .where(eq(shipCompliance.shipId, shipId))
-        .orderBy(desc(shipCompliance.year), desc(shipCompliance.createdAt))
-        .limit(limit);
+        .from(routeFuelLines)
+        .where(eq(routeFuelLines.routeId, routeId))
+        .orderBy(routeFuelLines.id);
     } catch (error) {
-      throw new StorageError(`Failed to fetch compliance history for ship ${shipId}`, error);
+      throw new StorageError(`Failed to fetch fuel lines for route ${routeId}`, error);
     }
   }
 
-  async createShipCompliance(compliance: InsertShipCompliance): Promise<ShipCompliance> {
+  async replaceRouteFuelLines(
+    routeId: number,
+    lines: InsertRouteFuelLine[],
+    routeUpdates?: Partial<InsertRoute>
+  ): Promise<RouteFuelLine[]> {
     try {
-      if (!compliance.shipId?.trim()) {
+      for (const line of lines) {
+        if (!fuelCatalogue.find(line.fuelType)) {
+          throw new ValidationError(`Unknown fuel type ${line.fuelType}`);
+        }
+        if (!(line.massTonnes > 0)) {
+          throw new ValidationError('Fuel mass must be positive');
+        }
+      }
+
+      return await db.transaction(async (tx) => {
+        // Replace the route's lines as a whole so totals stay consistent
+        await tx.delete(routeFuelLines).where(eq(routeFuelLines.routeId, routeId));
+
+        const inserted = lines.length > 0
+          ? await tx
+              .insert(routeFuelLines)
+              .values(lines.map(line => ({ ...line, routeId })))
+              .returning()
+          : [];
+
+        if (routeUpdates) {
+          const [updated] = await tx
+            .update(routes)
+            .set(routeUpdates)
+            .where(eq(routes.id, routeId))
+            .returning();
+
+          if (!updated) {
+            throw new NotFoundError('Route', String(routeId));
+          }
+        }
+
+        return inserted;
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to replace fuel lines for route ${routeId}`, error);
+    }
+  }
+
+  // Port Calls
+  async getPortCalls(shipId: string, year: number): Promise<PortCall[]> {
+    try {
+      return await db
+        .select()
+        .from(portCalls)
+        .where(and(eq(portCalls.shipId, shipId), eq(portCalls.year, year)))
+        .orderBy(portCalls.createdAt);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch port calls for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async createPortCall(portCall: InsertPortCall): Promise<PortCall> {
+    try {
+      if (!portCall.shipId?.trim()) {
         throw new ValidationError('Ship ID is required');
       }
-      if (!compliance.year || compliance.year < 2000 || compliance.year > 2100) {
+      if (!portCall.year || portCall.year < 2000 || portCall.year > 2100) {
         throw new ValidationError('Valid year is required (2000-2100)');
       }
+      if (!portCall.portCode?.trim()) {
+        throw new ValidationError('Port code is required');
+      }
+      if (!(portCall.berthHours >= 0)) {
+        throw new ValidationError('Berth duration must be zero or more hours');
+      }
+      if (!(portCall.electricalDemandKw >= 0)) {
+        throw new ValidationError('Electrical demand must be zero or more kW');
+      }
+
+      await this.getShipByImo(portCall.shipId);
 
-      const [newCompliance] = await db
-        .insert(shipCompliance)
-        .values(compliance)
+      const [newPortCall] = await db
+        .insert(portCalls)
+        .values(portCall)
         .returning();
 
-      if (!newCompliance) {
-        throw new StorageError('Failed to create ship compliance - no data returned');
+      if (!newPortCall) {
+        throw new StorageError('Failed to create port call - no data returned');
       }
 
-      return newCompliance;
+      return newPortCall;
     } catch (error) {
-      if (error instanceof ValidationError) throw error;
-      throw new StorageError('Failed to create ship compliance', error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to create port call', error);
     }
   }
 
-  async updateShipCompliance(id: string, updates: Partial<ShipCompliance>): Promise<ShipCompliance> {
+  async deletePortCall(id: number): Promise<void> {
     try {
-      const [compliance] = await db
-        .update(shipCompliance)
-        .set(updates)
-        .where(eq(shipCompliance.id, id))
+      const [portCall] = await db
+        .delete(portCalls)
+        .where(eq(portCalls.id, id))
         .returning();
 
-      if (!compliance) {
-        throw new NotFoundError('Ship compliance record', id);
+      if (!portCall) {
+        throw new NotFoundError('Port call', String(id));
       }
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to delete port call with ID ${id}`, error);
+    }
+  }
 
-      return compliance;
+  // Ship Engines
+  async getShipEngines(shipId: string): Promise<ShipEngine[]> {
+    try {
+      return await db
+        .select()
+        .from(shipEngines)
+        .where(eq(shipEngines.shipId, shipId))
+        .orderBy(shipEngines.name);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch engines for ship ${shipId}`, error);
+    }
+  }
+
+  async createShipEngine(engine: InsertShipEngine): Promise<ShipEngine> {
+    try {
+      if (!engine.shipId?.trim()) {
+        throw new ValidationError('Ship ID is required');
+      }
+      if (!engine.name?.trim()) {
+        throw new ValidationError('Engine name is required');
+      }
+
+      await this.getShipByImo(engine.shipId);
+
+      const existing = await this.getShipEngines(engine.shipId);
+      if (existing.some(e => e.name.trim().toLowerCase() === engine.name.trim().toLowerCase())) {
+        throw new ValidationError(`Engine ${engine.name} is already registered for ship ${engine.shipId}`);
+      }
+
+      const [newEngine] = await db
+        .insert(shipEngines)
+        .values(engine)
+        .returning();
+
+      if (!newEngine) {
+        throw new StorageError('Failed to create ship engine - no data returned');
+      }
+
+      return newEngine;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to create ship engine', error);
+    }
+  }
+
+  async deleteShipEngine(id: number): Promise<void> {
+    try {
+      const [engine] = await db
+        .delete(shipEngines)
+        .where(eq(shipEngines.id, id))
+        .returning();
+
+      if (!engine) {
+        throw new NotFoundError('Ship engine', String(id));
+      }
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
-      throw new StorageError(`Failed to update ship compliance with ID ${id}`, error);
+      throw new StorageError(`Failed to delete ship engine with ID ${id}`, error);
+    }
+  }
+
+  // Bunker Delivery Notes
+  async getBunkerDeliveryNotes(shipId?: string, year?: number): Promise<BunkerDeliveryNote[]> {
+    try {
+      const conditions = [];
+      if (shipId !== undefined) conditions.push(eq(bunkerDeliveryNotes.shipId, shipId));
+      if (year !== undefined) {
+        conditions.push(gte(bunkerDeliveryNotes.deliveryDate, `${year}-01-01`));
+        conditions.push(lte(bunkerDeliveryNotes.deliveryDate, `${year}-12-31`));
+      }
+
+      return await db
+        .select()
+        .from(bunkerDeliveryNotes)
+        .where(and(...conditions))
+        .orderBy(bunkerDeliveryNotes.shipId, bunkerDeliveryNotes.deliveryDate);
+    } catch (error) {
+      throw new StorageError('Failed to fetch bunker delivery notes', error);
+    }
+  }
+
+  async createBunkerDeliveryNotes(notes: InsertBunkerDeliveryNote[]): Promise<BunkerDeliveryNote[]> {
+    try {
+      const errors: string[] = [];
+      const seen = new Set<string>();
+
+      for (const note of notes) {
+        errors.push(...validateBdn(note));
+
+        const fuel = fuelCatalogue.find(note.fuelType);
+        if (!fuel) errors.push(`BDN ${note.bdnNumber}: unknown fuel type ${note.fuelType}`);
+        else note.fuelType = fuel.name;
+
+        try {
+          note.portCode = portReference.classify(note.portCode).locode;
+        } catch (error) {
+          if (!(error instanceof InvalidLocodeError)) throw error;
+          errors.push(`BDN ${note.bdnNumber}: ${error.message}`);
+        }
+
+        const key = `${note.shipId}/${note.bdnNumber}`;
+        if (seen.has(key)) errors.push(`BDN ${note.bdnNumber} appears more than once for ship ${note.shipId}`);
+        seen.add(key);
+      }
+
+      if (errors.length > 0) {
+        throw new ValidationError(errors.join('; '));
+      }
+      if (notes.length === 0) return [];
+
+      for (const shipId of Array.from(new Set(notes.map(note => note.shipId)))) {
+        await this.getShipByImo(shipId);
+      }
+
+      return await db.transaction(async (tx) => {
+        const existing = await tx
+          .select()
+          .from(bunkerDeliveryNotes)
+          .where(inArray(bunkerDeliveryNotes.bdnNumber, notes.map(note => note.bdnNumber)));
+
+        const duplicates = existing.filter(e => seen.has(`${e.shipId}/${e.bdnNumber}`));
+        if (duplicates.length > 0) {
+          throw new ValidationError(
+            `BDNs already recorded: ${duplicates.map(d => d.bdnNumber).join(', ')}`
+          );
+        }
+
+        return await tx
+          .insert(bunkerDeliveryNotes)
+          .values(notes)
+          .returning();
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError('Failed to record bunker delivery notes', error);
     }
   }
 
-  async deleteShipCompliance(id: string): Promise<void> {
+  async deleteBunkerDeliveryNote(id: number): Promise<void> {
     try {
-      const [compliance] = await db
-        .delete(shipCompliance)
-        .where(eq(shipCompliance.id, id))
+      const [deleted] = await db
+        .delete(bunkerDeliveryNotes)
+        .where(eq(bunkerDeliveryNotes.id, id))
         .returning();
 
-      if (!compliance) {
-        throw new NotFoundError('Ship compliance record', id);
+      if (!deleted) {
+        throw new NotFoundError('Bunker delivery note', String(id));
       }
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
-      throw new StorageError(`Failed to delete ship compliance with ID ${id}`, error);
+      throw new StorageError(`Failed to delete bunker delivery note with id ${id}`, error);
+    }
+  }
+
+  // Ship Compliance
+  async getShipCompliance(shipId: string, year: number): Promise<ShipCompliance | undefined> {
+    try {
+      return await this.selectShipCompliance(db, shipId, year);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch compliance for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async getShipComplianceHistory(shipId: string, limit: number = 10): Promise<ShipCompliance[]> {
+    try {
+      return await db
+        .select()
+        .from(shipCompliance)
+        .where(eq(shipCompliance.shipId, shipId))
+        .orderBy(desc(shipCompliance.year), desc(shipCompliance.createdAt))
+        .limit(limit);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch compliance history for ship ${shipId}`, error);
+    }
+  }
+
+  // Compliance Ledger
+  async getLedgerEntries(shipId: string, year?: number): Promise<LedgerEntry[]> {
+    try {
+      const conditions = year === undefined
+        ? eq(complianceLedger.shipId, shipId)
+        : and(eq(complianceLedger.shipId, shipId), eq(complianceLedger.year, year));
+
+      return await db
+        .select()
+        .from(complianceLedger)
+        .where(conditions)
+        .orderBy(complianceLedger.year, complianceLedger.id);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch ledger for ship ${shipId}`, error);
+    }
+  }
+
+  async appendLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry> {
+    try {
+      return await db.transaction((tx) => this.insertLedgerEntry(tx, entry));
+    } catch (error) {
+      if (error instanceof ValidationError) throw error;
+      throw new StorageError(`Failed to append ledger entry for ship ${entry.shipId}`, error);
+    }
+  }
+
+  // Chain an entry onto the ship's ledger and update the CB projection
+  private async insertLedgerEntry(tx: Transaction, entry: InsertLedgerEntry): Promise<LedgerEntry> {
+    if (!entry.shipId?.trim()) {
+      throw new ValidationError('Ship ID is required');
+    }
+    if (!entry.year || entry.year < 2000 || entry.year > 2100) {
+      throw new ValidationError('Valid year is required (2000-2100)');
+    }
+    if (!entry.actor?.trim()) {
+      throw new ValidationError('Ledger entries require an actor');
+    }
+    if (!entry.reason?.trim()) {
+      throw new ValidationError('Ledger entries require a reason');
+    }
+
+    const [previous] = await tx
+      .select()
+      .from(complianceLedger)
+      .where(and(eq(complianceLedger.shipId, entry.shipId), eq(complianceLedger.year, entry.year)))
+      .orderBy(desc(complianceLedger.id))
+      .limit(1);
+
+    const [appended] = await tx
+      .insert(complianceLedger)
+      .values({ ...entry, ...chainLedgerEntry(previous, entry.amountGco2eq) })
+      .returning();
+
+    if (!appended) {
+      throw new StorageError('Failed to append ledger entry - no data returned');
+    }
+
+    // Keep the per-year CB projection in step with the ledger
+    const [projection] = await tx
+      .update(shipCompliance)
+      .set({ cbGco2eq: appended.cbAfter })
+      .where(and(eq(shipCompliance.shipId, entry.shipId), eq(shipCompliance.year, entry.year)))
+      .returning();
+
+    if (!projection) {
+      await tx.insert(shipCompliance).values({
+        shipId: entry.shipId,
+        year: entry.year,
+        cbGco2eq: appended.cbAfter,
+      });
     }
+
+    return appended;
   }
 
   // Bank Entries
@@ -402,9 +1267,13 @@ export class DatabaseStorage implements IStorage {
   async getTotalBanked(shipId: string, year: number): Promise<number> {
     try {
       const result = await db
-        .select({ total: sql<number>`SUM(${bankEntries.amountGco2eq})` })
+        .select({ total: sql<number>`SUM(${bankEntries.amountGco2eq})`.mapWith(Number) })
         .from(bankEntries)
-        .where(and(eq(bankEntries.shipId, shipId), eq(bankEntries.year, year)));
+        .where(and(
+          eq(bankEntries.shipId, shipId),
+          eq(bankEntries.year, year),
+          inArray(bankEntries.entryType, ["bank", "apply"])
+        ));
 
       return result[0]?.total || 0;
     } catch (error) {
@@ -412,16 +1281,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getTotalBorrowed(shipId: string, year: number): Promise<number> {
+    try {
+      return await this.selectTotalBorrowed(db, shipId, year);
+    } catch (error) {
+      throw new StorageError(`Failed to calculate total borrowed for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
   async getBankSummary(shipId: string, startYear: number, endYear: number): Promise<{ year: number; total: number }[]> {
     try {
       return await db
         .select({
           year: bankEntries.year,
-          total: sql<number>`SUM(${bankEntries.amountGco2eq})`
+          total: sql<number>`SUM(${bankEntries.amountGco2eq})`.mapWith(Number)
         })
         .from(bankEntries)
         .where(and(
           eq(bankEntries.shipId, shipId),
+          inArray(bankEntries.entryType, ["bank", "apply"]),
           sql`${bankEntries.year} >= ${startYear} AND ${bankEntries.year} <= ${endYear}`
         ))
         .groupBy(bankEntries.year)
@@ -431,6 +1309,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getBankBalances(shipId: string): Promise<BankBalance[]> {
+    try {
+      return await this.selectBankBalances(db, shipId);
+    } catch (error) {
+      throw new StorageError(`Failed to fetch bank balances for ship ${shipId}`, error);
+    }
+  }
+
   // Pools
   async createPool(pool: InsertPool): Promise<Pool> {
     try {
@@ -545,7 +1431,7 @@ export class DatabaseStorage implements IStorage {
         .select()
         .from(poolMembers)
         .where(eq(poolMembers.poolId, poolId))
-        .orderBy(poolMembers.createdAt);
+        .orderBy(poolMembers.id);
     } catch (error) {
       throw new StorageError(`Failed to fetch members for pool ${poolId}`, error);
     }
@@ -596,6 +1482,328 @@ export class DatabaseStorage implements IStorage {
       throw new StorageError(`Failed to fetch pools for ship ${shipId}`, error);
     }
   }
+
+  // Banking and pooling workflows
+  async bankSurplus(operation: BalanceOperation): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockShips(tx, [shipId]);
+
+        const compliance = await this.selectShipCompliance(tx, shipId, year);
+        const currentCB = compliance?.cbGco2eq || 0;
+        if (currentCB <= 0) {
+          throw new ValidationError('Cannot bank surplus when CB <= 0');
+        }
+        if (amount > currentCB) {
+          throw new ValidationError('Amount exceeds available surplus');
+        }
+
+        const [entry] = await tx
+          .insert(bankEntries)
+          .values({ shipId, year, entryType: "bank", originYear: year, amountGco2eq: amount })
+          .returning();
+
+        const ledgerEntry = await this.insertLedgerEntry(tx, {
+          shipId,
+          year,
+          entryType: "bank",
+          amountGco2eq: -amount,
+          actor: operation.actor,
+          reason: operation.reason,
+          reference: `bank_entry:${entry.id}`,
+        });
+
+        return { entry, ledgerEntry };
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to bank surplus for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async applyBankedSurplus(operation: BalanceOperation): Promise<{ entries: BankEntry[]; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockShips(tx, [shipId]);
+
+        // Surplus banked in earlier years is drawn oldest-first
+        const balances = await this.selectBankBalances(tx, shipId);
+        const { draws, errors } = allocateBankedSurplus(balances, amount, year);
+        if (errors.length > 0) {
+          throw new ValidationError(errors[0], errors);
+        }
+
+        const entries = await tx
+          .insert(bankEntries)
+          .values(draws.map(draw => ({
+            shipId,
+            year,
+            entryType: "apply" as const,
+            originYear: draw.originYear,
+            amountGco2eq: -draw.amount,
+          })))
+          .returning();
+
+        const ledgerEntry = await this.insertLedgerEntry(tx, {
+          shipId,
+          year,
+          entryType: "apply",
+          amountGco2eq: amount,
+          actor: operation.actor,
+          reason: operation.reason,
+          reference: entries.map(entry => `bank_entry:${entry.id}`).join(","),
+          details: { draws },
+        });
+
+        return { entries, ledgerEntry };
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to apply banked surplus for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async borrowSurplus(operation: BalanceOperation, limit: number): Promise<{ entry: BankEntry; ledgerEntry: LedgerEntry }> {
+    const { shipId, year, amount } = operation;
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockShips(tx, [shipId]);
+
+        const compliance = await this.selectShipCompliance(tx, shipId, year);
+        const errors = validateBorrowing({
+          cb: compliance?.cbGco2eq || 0,
+          amount,
+          limit,
+          borrowedPreviousYear: await this.selectTotalBorrowed(tx, shipId, year - 1),
+        });
+        if (errors.length > 0) {
+          throw new ValidationError('Borrowing not allowed', errors);
+        }
+
+        const [entry] = await tx
+          .insert(bankEntries)
+          .values({ shipId, year, entryType: "borrow", amountGco2eq: amount })
+          .returning();
+
+        const ledgerEntry = await this.insertLedgerEntry(tx, {
+          shipId,
+          year,
+          entryType: "borrow",
+          amountGco2eq: amount,
+          actor: operation.actor,
+          reason: operation.reason,
+          reference: `bank_entry:${entry.id}`,
+          details: { repaymentDue: calculateBorrowingRepayment(amount), repaymentYear: year + 1 },
+        });
+
+        return { entry, ledgerEntry };
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to borrow for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async recordComputedBalance(computed: ComputedBalance): Promise<number> {
+    const { shipId, year, computedCb } = computed;
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockShips(tx, [shipId]);
+
+        // Read under the lock, so a concurrent workflow cannot land between the delta and the append
+        const ledger = await tx
+          .select()
+          .from(complianceLedger)
+          .where(and(eq(complianceLedger.shipId, shipId), eq(complianceLedger.year, year)))
+          .orderBy(complianceLedger.id);
+
+        const delta = calculateComputationDelta(ledger, computedCb);
+        if (delta === 0 && ledger.some(entry => entry.entryType === "computation")) {
+          return ledger[ledger.length - 1].cbAfter;
+        }
+
+        const entry = await this.insertLedgerEntry(tx, {
+          shipId,
+          year,
+          entryType: "computation",
+          amountGco2eq: delta,
+          actor: computed.actor,
+          reason: computed.reason ?? (ledger.length > 0 ? "Recomputed from route data" : "Computed from route data"),
+          details: computed.details,
+        });
+        return entry.cbAfter;
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to record computed CB for ship ${shipId}, year ${year}`, error);
+    }
+  }
+
+  async createPoolWithMembers(
+    year: number,
+    members: Array<{ shipId: string; computedCb: number }>,
+    actor: string
+  ): Promise<{ pool: Pool; members: PoolAllocation[] }> {
+    try {
+      if (!year || year < 2000 || year > 2100) {
+        throw new ValidationError('Valid year is required (2000-2100)');
+      }
+      if (new Set(members.map(m => m.shipId)).size !== members.length) {
+        throw new ValidationError('A ship can only be added to a pool once');
+      }
+
+      return await db.transaction(async (tx) => {
+        await this.lockShips(tx, members.map(m => m.shipId));
+
+        // Balances are read under the lock, so they cannot change before the pool is recorded
+        const verifiedMembers = [];
+        const unrecorded = new Set<string>();
+        for (const member of members) {
+          const compliance = await this.selectShipCompliance(tx, member.shipId, year);
+          if (!compliance) unrecorded.add(member.shipId);
+          verifiedMembers.push({ shipId: member.shipId, cbBefore: compliance?.cbGco2eq ?? member.computedCb });
+        }
+
+        const allocated = allocatePoolBalances(verifiedMembers);
+        const validation = validatePool(allocated);
+        if (!validation.valid) {
+          throw new ValidationError('Pool validation failed', validation.errors);
+        }
+
+        const [pool] = await tx.insert(pools).values({ year }).returning();
+        for (const member of allocated) {
+          await tx.insert(poolMembers).values({ poolId: pool.id, ...member });
+
+          // A ship without a recorded balance enters at its computed CB; record it
+          // first so the pool entry chains from that balance rather than zero
+          if (unrecorded.has(member.shipId)) {
+            await this.insertLedgerEntry(tx, {
+              shipId: member.shipId,
+              year,
+              entryType: "computation",
+              amountGco2eq: member.cbBefore,
+              actor,
+              reason: `Computed from route data for pool ${pool.id}`,
+              details: { computedCb: member.cbBefore },
+            });
+          }
+          await this.insertLedgerEntry(tx, {
+            shipId: member.shipId,
+            year,
+            entryType: "pool",
+            amountGco2eq: member.cbAfter - member.cbBefore,
+            actor,
+            reason: `Pool allocation (Article 21), pool ${pool.id}`,
+            reference: `pool:${pool.id}`,
+            details: { cbBefore: member.cbBefore, cbAfter: member.cbAfter },
+          });
+        }
+
+        return { pool, members: allocated };
+      });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) throw error;
+      throw new StorageError(`Failed to create pool for year ${year}`, error);
+    }
+  }
+
+  // Lock the ships' rows until the transaction ends; balance-changing workflows
+  // for the same ship queue behind each other. Locked in IMO order to avoid deadlocks
+  private async lockShips(tx: Transaction, shipIds: string[]): Promise<void> {
+    const ids = Array.from(new Set(shipIds)).sort();
+    const locked = await tx
+      .select({ imoNumber: ships.imoNumber })
+      .from(ships)
+      .where(inArray(ships.imoNumber, ids))
+      .orderBy(ships.imoNumber)
+      .for("update");
+
+    const missing = ids.find(id => !locked.some(row => row.imoNumber === id));
+    if (missing) {
+      throw new NotFoundError('Ship', missing);
+    }
+  }
+
+  // Queries shared by the public getters and the workflows above; executor is db or a transaction
+  private async selectShipCompliance(executor: typeof db, shipId: string, year: number): Promise<ShipCompliance | undefined> {
+    const [compliance] = await executor
+      .select()
+      .from(shipCompliance)
+      .where(and(eq(shipCompliance.shipId, shipId), eq(shipCompliance.year, year)));
+
+    return compliance || undefined;
+  }
+
+  // Compliance, bank and pool records for the ship and period a route reports in
+  private async selectRouteReferences(executor: typeof db, shipId: string, year: number): Promise<string[]> {
+    const references: string[] = [];
+
+    if (await this.selectShipCompliance(executor, shipId, year)) {
+      references.push(`Compliance balance of ship ${shipId} for ${year}`);
+    }
+
+    const entries = await executor
+      .select({ id: bankEntries.id })
+      .from(bankEntries)
+      .where(and(
+        eq(bankEntries.shipId, shipId),
+        sql`(${bankEntries.year} = ${year} OR ${bankEntries.originYear} = ${year})`
+      ));
+    if (entries.length > 0) {
+      references.push(`${entries.length} bank ${entries.length === 1 ? "entry" : "entries"} of ship ${shipId} for ${year}`);
+    }
+
+    const memberships = await executor
+      .select({ poolId: pools.id })
+      .from(poolMembers)
+      .innerJoin(pools, eq(poolMembers.poolId, pools.id))
+      .where(and(eq(poolMembers.shipId, shipId), eq(pools.year, year)))
+      .orderBy(pools.id);
+    for (const { poolId } of memberships) {
+      references.push(`Pool #${poolId} for ${year}`);
+    }
+
+    return references;
+  }
+
+  private async selectTotalBorrowed(executor: typeof db, shipId: string, year: number): Promise<number> {
+    const result = await executor
+      .select({ total: sql<number>`SUM(${bankEntries.amountGco2eq})`.mapWith(Number) })
+      .from(bankEntries)
+      .where(and(
+        eq(bankEntries.shipId, shipId),
+        eq(bankEntries.year, year),
+        eq(bankEntries.entryType, "borrow")
+      ));
+
+    return result[0]?.total || 0;
+  }
+
+  private async selectBankBalances(executor: typeof db, shipId: string): Promise<BankBalance[]> {
+    // Apply entries carry the origin year they drew from; bank entries originate in their own year
+    const origin = sql<number>`COALESCE(${bankEntries.originYear}, ${bankEntries.year})`;
+    const rows = await executor
+      .select({
+        originYear: origin.mapWith(Number),
+        banked: sql<number>`SUM(CASE WHEN ${bankEntries.entryType} = 'bank' THEN ${bankEntries.amountGco2eq} ELSE 0 END)`.mapWith(Number),
+        applied: sql<number>`SUM(CASE WHEN ${bankEntries.entryType} = 'apply' THEN -${bankEntries.amountGco2eq} ELSE 0 END)`.mapWith(Number),
+      })
+      .from(bankEntries)
+      .where(and(
+        eq(bankEntries.shipId, shipId),
+        inArray(bankEntries.entryType, ["bank", "apply"])
+      ))
+      .groupBy(origin)
+      .orderBy(origin);
+
+    return rows.map(row => ({ ...row, available: row.banked - row.applied }));
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Adapter selection - STORAGE_ADAPTER=memory runs without a database;
+// the server loads a fixture set into it at startup
+export const storage: IStorage = process.env.STORAGE_ADAPTER === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
\ No newline at end of file
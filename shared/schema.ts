@@ -1,12 +1,57 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, serial, date, bigint, jsonb, unique, index, check } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Voyage scope classification (Article 2(1)) - drives share of energy in scope
+export const VOYAGE_SCOPES = [
+  "intra_eu",
+  "eu_to_third_country",
+  "third_country_to_eu",
+  "at_berth",
+] as const;
+
+export type VoyageScope = typeof VOYAGE_SCOPES[number];
+
+// Ships table - registry of vessels keyed by IMO number
+export const ships = pgTable("ships", {
+  id: serial("id").primaryKey(),
+  imoNumber: varchar("imo_number", { length: 7 }).notNull().unique(),
+  name: varchar("name", { length: 200 }).notNull(),
+  vesselType: varchar("vessel_type", { length: 100 }).notNull(),
+  grossTonnage: real("gross_tonnage").notNull(),
+  flag: varchar("flag", { length: 2 }).notNull(), // ISO 3166-1 alpha-2
+  iceClass: varchar("ice_class", { length: 10 }),
+  managingCompany: varchar("managing_company", { length: 200 }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Companies table - ISM companies carrying the FuelEU obligation for their ships
+export const companies = pgTable("companies", {
+  id: serial("id").primaryKey(),
+  imoCompanyNumber: varchar("imo_company_number", { length: 7 }).unique(), // IMO unique company identification number
+  name: varchar("name", { length: 200 }).notNull(),
+  country: varchar("country", { length: 2 }), // ISO 3166-1 alpha-2
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Ship-to-company assignments - who manages a ship over which dates
+export const shipCompanyAssignments = pgTable("ship_company_assignments", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 7 }).notNull().references(() => ships.imoNumber),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  effectiveFrom: date("effective_from", { mode: "string" }).notNull(), // Inclusive
+  effectiveTo: date("effective_to", { mode: "string" }), // Exclusive; null while current
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  check("ship_company_assignments_dates_check", sql`${table.effectiveTo} IS NULL OR ${table.effectiveTo} > ${table.effectiveFrom}`),
+]);
+
 // Routes table - stores vessel route data with emissions metrics
 export const routes = pgTable("routes", {
   id: serial("id").primaryKey(),
   routeId: varchar("route_id", { length: 50 }).notNull().unique(),
+  shipId: varchar("ship_id", { length: 7 }).references(() => ships.imoNumber), // IMO number
   vesselType: varchar("vessel_type", { length: 100 }).notNull(),
   fuelType: varchar("fuel_type", { length: 50 }).notNull(),
   year: integer("year").notNull(),
@@ -14,24 +59,138 @@ export const routes = pgTable("routes", {
   fuelConsumption: real("fuel_consumption").notNull(), // tonnes
   distance: real("distance").notNull(), // km
   totalEmissions: real("total_emissions").notNull(), // tonnes
+  voyageScope: varchar("voyage_scope", { length: 30, enum: VOYAGE_SCOPES }).notNull().default("intra_eu"),
   isBaseline: boolean("is_baseline").notNull().default(false),
+}, (table) => [
+  // Keyset pagination orders by the sort column, then id
+  index("routes_year_idx").on(table.year, table.id),
+  index("routes_ghg_intensity_idx").on(table.ghgIntensity, table.id),
+  index("routes_vessel_type_idx").on(table.vesselType),
+  index("routes_fuel_type_idx").on(table.fuelType),
+]);
+
+// Voyages table - port-to-port legs; scope and reporting year are derived from
+// the ports and timestamps, and a route aggregates the voyages assigned to it
+export const voyages = pgTable("voyages", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 7 }).notNull().references(() => ships.imoNumber),
+  routeId: integer("route_id").references(() => routes.id, { onDelete: "set null" }),
+  departurePort: varchar("departure_port", { length: 5 }).notNull(), // UN/LOCODE
+  arrivalPort: varchar("arrival_port", { length: 5 }).notNull(), // UN/LOCODE
+  departureAt: timestamp("departure_at").notNull(),
+  arrivalAt: timestamp("arrival_at").notNull(),
+  voyageScope: varchar("voyage_scope", { length: 30, enum: VOYAGE_SCOPES }), // null when outside FuelEU scope
+  year: integer("year").notNull(), // Reporting period
+  fuelConsumption: real("fuel_consumption").notNull(), // tonnes
+  distance: real("distance").notNull(), // km
+  totalEmissions: real("total_emissions").notNull(), // tonnes
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  check("voyages_timing_check", sql`${table.arrivalAt} > ${table.departureAt}`),
+]);
+
+// Route fuel lines table - per-fuel consumption for a route/voyage
+export const routeFuelLines = pgTable("route_fuel_lines", {
+  id: serial("id").primaryKey(),
+  routeId: integer("route_id").notNull().references(() => routes.id, { onDelete: "cascade" }),
+  fuelType: varchar("fuel_type", { length: 50 }).notNull(),
+  massTonnes: real("mass_tonnes").notNull(), // tonnes
+  consumer: varchar("consumer", { length: 100 }), // engine/consumer, e.g. "Main engine"
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
-// Ship compliance table - stores computed compliance balance records
+// Engine/consumer types - LNG variants carry different methane slip
+export const ENGINE_TYPES = [
+  "lng_otto_medium_speed",
+  "lng_otto_slow_speed",
+  "lng_diesel_slow_speed",
+  "lbsi",
+  "diesel",
+  "boiler",
+  "other",
+] as const;
+
+export type EngineType = typeof ENGINE_TYPES[number];
+
+// Ship engines table - engine/consumer registry per ship
+export const shipEngines = pgTable("ship_engines", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 50 }).notNull().references(() => ships.imoNumber),
+  name: varchar("name", { length: 100 }).notNull(), // matches route_fuel_lines.consumer
+  engineType: varchar("engine_type", { length: 30, enum: ENGINE_TYPES }).notNull(),
+  powerKw: real("power_kw"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("ship_engines_ship_name_unique").on(table.shipId, table.name),
+]);
+
+// Bunker delivery notes table - fuel bunkered per delivery (MARPOL Annex VI)
+export const bunkerDeliveryNotes = pgTable("bunker_delivery_notes", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 7 }).notNull().references(() => ships.imoNumber),
+  bdnNumber: varchar("bdn_number", { length: 50 }).notNull(), // Supplier's BDN reference
+  supplier: varchar("supplier", { length: 200 }).notNull(),
+  portCode: varchar("port_code", { length: 5 }).notNull(), // UN/LOCODE
+  deliveryDate: date("delivery_date", { mode: "string" }).notNull(),
+  fuelType: varchar("fuel_type", { length: 50 }).notNull(), // Fuel catalogue name
+  fuelGrade: varchar("fuel_grade", { length: 50 }).notNull(), // e.g. ISO 8217 RMG 380
+  massTonnes: real("mass_tonnes").notNull(),
+  densityKgM3: real("density_kg_m3").notNull(), // at 15 °C
+  sulphurContent: real("sulphur_content").notNull(), // % m/m
+  sustainabilityCertificate: varchar("sustainability_certificate", { length: 100 }), // PoS / certificate reference
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("bunker_delivery_notes_ship_bdn_unique").on(table.shipId, table.bdnNumber),
+]);
+
+// Compliance ledger entry types - every change to a ship's CB is one of these
+export const LEDGER_ENTRY_TYPES = ["computation", "bank", "apply", "borrow", "pool"] as const;
+
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+// Compliance ledger table - append-only history of CB changes per ship per year
+export const complianceLedger = pgTable("compliance_ledger", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 50 }).notNull(),
+  year: integer("year").notNull(),
+  entryType: varchar("entry_type", { length: 20, enum: LEDGER_ENTRY_TYPES }).notNull(),
+  amountGco2eq: bigint("amount_gco2eq", { mode: "number" }).notNull(), // Change applied to the CB, whole grams
+  cbBefore: bigint("cb_before", { mode: "number" }).notNull(),
+  cbAfter: bigint("cb_after", { mode: "number" }).notNull(),
+  actor: varchar("actor", { length: 100 }).notNull(),
+  reason: text("reason").notNull(),
+  reference: varchar("reference", { length: 100 }), // e.g. bank_entry:12, pool:3
+  details: jsonb("details"), // Calculation inputs needed to reproduce the amount
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("compliance_ledger_ship_year_idx").on(table.shipId, table.year, table.id),
+]);
+
+// Ship compliance table - CB projection per ship per year, maintained from the ledger
 export const shipCompliance = pgTable("ship_compliance", {
   id: serial("id").primaryKey(),
   shipId: varchar("ship_id", { length: 50 }).notNull(),
   year: integer("year").notNull(),
-  cbGco2eq: real("cb_gco2eq").notNull(), // Compliance Balance in gCO2eq
+  cbGco2eq: bigint("cb_gco2eq", { mode: "number" }).notNull(), // Compliance Balance in whole gCO2eq
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
-});
+}, (table) => [
+  unique("ship_compliance_ship_year_unique").on(table.shipId, table.year),
+]);
+
+// Bank entry types - bank (+) and apply (−) move banked surplus,
+// borrow records an advance surplus repaid from the next period
+export const BANK_ENTRY_TYPES = ["bank", "apply", "borrow"] as const;
+
+export type BankEntryType = typeof BANK_ENTRY_TYPES[number];
 
 // Bank entries table - stores banked surplus amounts
 export const bankEntries = pgTable("bank_entries", {
   id: serial("id").primaryKey(),
   shipId: varchar("ship_id", { length: 50 }).notNull(),
   year: integer("year").notNull(),
-  amountGco2eq: real("amount_gco2eq").notNull(), // Banked amount in gCO2eq
+  entryType: varchar("entry_type", { length: 20, enum: BANK_ENTRY_TYPES }).notNull().default("bank"),
+  originYear: integer("origin_year"), // Year the surplus was banked in; apply entries draw from it
+  amountGco2eq: bigint("amount_gco2eq", { mode: "number" }).notNull(), // Banked amount in whole gCO2eq
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -45,13 +204,88 @@ export const pools = pgTable("pools", {
 // Pool members table - tracks ship participation in pools with before/after CB
 export const poolMembers = pgTable("pool_members", {
   id: serial("id").primaryKey(),
-  poolId: integer("pool_id").notNull().references(() => pools.id),
+  poolId: integer("pool_id").notNull().references(() => pools.id, { onDelete: "cascade" }),
   shipId: varchar("ship_id", { length: 50 }).notNull(),
-  cbBefore: real("cb_before").notNull(), // CB before pooling
-  cbAfter: real("cb_after").notNull(), // CB after pooling allocation
+  cbBefore: bigint("cb_before", { mode: "number" }).notNull(), // CB before pooling, whole gCO2eq
+  cbAfter: bigint("cb_after", { mode: "number" }).notNull(), // CB after pooling allocation, whole gCO2eq
+}, (table) => [
+  unique("pool_members_pool_ship_unique").on(table.poolId, table.shipId),
+]);
+
+// OPS exemption grounds (Article 6(5))
+export const OPS_EXEMPTION_REASONS = [
+  "zero_emission_technology",
+  "unscheduled_call",
+  "ops_unavailable",
+  "ops_incompatible",
+  "emergency",
+] as const;
+
+export type OpsExemptionReason = typeof OPS_EXEMPTION_REASONS[number];
+
+// Port calls table - at-berth stays for onshore power supply tracking
+export const portCalls = pgTable("port_calls", {
+  id: serial("id").primaryKey(),
+  shipId: varchar("ship_id", { length: 50 }).notNull().references(() => ships.imoNumber),
+  year: integer("year").notNull(),
+  portCode: varchar("port_code", { length: 10 }).notNull(), // UN/LOCODE
+  isTenTPort: boolean("is_ten_t_port").notNull().default(true),
+  berthHours: real("berth_hours").notNull(),
+  opsUsed: boolean("ops_used").notNull().default(false),
+  exemptionReason: varchar("exemption_reason", { length: 50, enum: OPS_EXEMPTION_REASONS }),
+  electricalDemandKw: real("electrical_demand_kw").notNull(), // kW at berth
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 // Relations
+export const companiesRelations = relations(companies, ({ many }) => ({
+  assignments: many(shipCompanyAssignments),
+}));
+
+export const shipsRelations = relations(ships, ({ many }) => ({
+  routes: many(routes),
+  voyages: many(voyages),
+  assignments: many(shipCompanyAssignments),
+}));
+
+export const shipCompanyAssignmentsRelations = relations(shipCompanyAssignments, ({ one }) => ({
+  ship: one(ships, {
+    fields: [shipCompanyAssignments.shipId],
+    references: [ships.imoNumber],
+  }),
+  company: one(companies, {
+    fields: [shipCompanyAssignments.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const routesRelations = relations(routes, ({ one, many }) => ({
+  ship: one(ships, {
+    fields: [routes.shipId],
+    references: [ships.imoNumber],
+  }),
+  fuelLines: many(routeFuelLines),
+  voyages: many(voyages),
+}));
+
+export const voyagesRelations = relations(voyages, ({ one }) => ({
+  ship: one(ships, {
+    fields: [voyages.shipId],
+    references: [ships.imoNumber],
+  }),
+  route: one(routes, {
+    fields: [voyages.routeId],
+    references: [routes.id],
+  }),
+}));
+
+export const routeFuelLinesRelations = relations(routeFuelLines, ({ one }) => ({
+  route: one(routes, {
+    fields: [routeFuelLines.routeId],
+    references: [routes.id],
+  }),
+}));
+
 export const poolsRelations = relations(pools, ({ many }) => ({
   members: many(poolMembers),
 }));
@@ -64,10 +298,64 @@ export const poolMembersRelations = relations(poolMembers, ({ one }) => ({
 }));
 
 // Insert schemas
+export const insertCompanySchema = createInsertSchema(companies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShipCompanyAssignmentSchema = createInsertSchema(shipCompanyAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShipSchema = createInsertSchema(ships).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertRouteSchema = createInsertSchema(routes).omit({
   id: true,
 });
 
+// Scope and year are derived server-side; timestamps arrive as ISO strings
+export const insertVoyageSchema = createInsertSchema(voyages, {
+  departureAt: z.coerce.date(),
+  arrivalAt: z.coerce.date(),
+}).omit({
+  id: true,
+  voyageScope: true,
+  year: true,
+  createdAt: true,
+});
+
+export const insertRouteFuelLineSchema = createInsertSchema(routeFuelLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPortCallSchema = createInsertSchema(portCalls).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShipEngineSchema = createInsertSchema(shipEngines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBunkerDeliveryNoteSchema = createInsertSchema(bunkerDeliveryNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// cbBefore/cbAfter are filled in when the entry is appended
+export const insertLedgerEntrySchema = createInsertSchema(complianceLedger).omit({
+  id: true,
+  cbBefore: true,
+  cbAfter: true,
+  createdAt: true,
+});
+
 export const insertShipComplianceSchema = createInsertSchema(shipCompliance).omit({
   id: true,
   createdAt: true,
@@ -88,9 +376,36 @@ export const insertPoolMemberSchema = createInsertSchema(poolMembers).omit({
 });
 
 // Types
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+
+export type ShipCompanyAssignment = typeof shipCompanyAssignments.$inferSelect;
+export type InsertShipCompanyAssignment = z.infer<typeof insertShipCompanyAssignmentSchema>;
+
+export type Ship = typeof ships.$inferSelect;
+export type InsertShip = z.infer<typeof insertShipSchema>;
+
 export type Route = typeof routes.$inferSelect;
 export type InsertRoute = z.infer<typeof insertRouteSchema>;
 
+export type Voyage = typeof voyages.$inferSelect;
+export type InsertVoyage = z.infer<typeof insertVoyageSchema>;
+
+export type RouteFuelLine = typeof routeFuelLines.$inferSelect;
+export type InsertRouteFuelLine = z.infer<typeof insertRouteFuelLineSchema>;
+
+export type PortCall = typeof portCalls.$inferSelect;
+export type InsertPortCall = z.infer<typeof insertPortCallSchema>;
+
+export type ShipEngine = typeof shipEngines.$inferSelect;
+export type InsertShipEngine = z.infer<typeof insertShipEngineSchema>;
+
+export type BunkerDeliveryNote = typeof bunkerDeliveryNotes.$inferSelect;
+export type InsertBunkerDeliveryNote = z.infer<typeof insertBunkerDeliveryNoteSchema>;
+
+export type LedgerEntry = typeof complianceLedger.$inferSelect;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+
 export type ShipCompliance = typeof shipCompliance.$inferSelect;
 export type InsertShipCompliance = z.infer<typeof insertShipComplianceSchema>;
 
@@ -106,11 +421,77 @@ export type InsertPoolMember = z.infer<typeof insertPoolMemberSchema>;
 // API response types
 export type ComparisonResult = {
   route: Route;
+  baselineRouteId: string;
+  baselineYear: number;
   baselineIntensity: number;
+  targetIntensity: number;
   percentDiff: number;
   compliant: boolean;
 };
 
+// Route list queries - filters, sort and cursor pagination for /api/routes and /api/routes/comparison
+export const ROUTE_SORT_FIELDS = [
+  "routeId",
+  "vesselType",
+  "fuelType",
+  "year",
+  "ghgIntensity",
+  "fuelConsumption",
+  "distance",
+  "totalEmissions",
+] as const;
+
+export type RouteSortField = typeof ROUTE_SORT_FIELDS[number];
+
+export type SortOrder = "asc" | "desc";
+
+export type RouteFilters = {
+  shipId?: string;
+  vesselType?: string;
+  fuelType?: string;
+  yearFrom?: number; // Inclusive
+  yearTo?: number; // Inclusive
+  intensityMin?: number; // gCO2e/MJ, inclusive
+  intensityMax?: number; // gCO2e/MJ, inclusive
+};
+
+export type RouteFacets = {
+  vesselTypes: string[];
+  fuelTypes: string[];
+  years: number[];
+};
+
+// One page of a list; pass nextCursor back as ?cursor= for the following page
+export type Page<T> = {
+  items: T[];
+  total: number; // Matching rows across all pages
+  nextCursor: string | null;
+};
+
+// A created or updated route and the ship balances recomputed because of it
+export type RouteMutationResponse = {
+  route: Route;
+  recomputed: Array<{ shipId: string; year: number; cb: number }>;
+};
+
+export type RfnboLineItem = {
+  energyMJ: number;
+  share: number;
+  rewardFactor: number;
+  rewardCb: number; // gCO2eq gained through the reward factor
+  subTargetApplies: boolean;
+  subTargetShare: number;
+  shortfallMJ: number;
+  penalty: number; // €
+};
+
+// Rounding applied to gCO2eq balances in API responses
+export type BalanceRounding = {
+  unit: "gCO2eq";
+  decimals: number;
+  mode: "half_even";
+};
+
 export type ComplianceBalanceResponse = {
   shipId: string;
   year: number;
@@ -118,6 +499,172 @@ export type ComplianceBalanceResponse = {
   cbBefore?: number;
   cbAfter?: number;
   applied?: number;
+  borrowingRepayment?: number; // gCO2eq charged for borrowing in the previous year
+  computedCb?: number; // CB from routes before banking, borrowing and pooling
+  rfnbo?: RfnboLineItem;
+  rounding?: BalanceRounding;
+};
+
+export type TargetIntensityResponse = {
+  year: number;
+  referenceIntensity: number;
+  reductionPercent: number;
+  targetIntensity: number;
+};
+
+// Port reference entry - UN/LOCODE with EU/EEA and outermost-region flags
+export type PortDefinition = {
+  locode: string;
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  isEuEea: boolean;
+  isOutermostRegion: boolean;
+  isTenT: boolean;
+};
+
+// Port stay derived from consecutive voyages
+export type PortStay = {
+  portCode: string;
+  portName: string;
+  isEuEea: boolean;
+  isTenTPort: boolean;
+  arrivalAt: string;
+  departureAt: string;
+  year: number;
+  berthHours: number;
+  voyageScope: VoyageScope | null;
+};
+
+// Fuel catalogue entry (Annex II defaults) - LCV in MJ/g
+export type FuelClass = "fossil" | "biofuel" | "rfnbo";
+
+export type FuelDefinition = {
+  name: string;
+  fuelClass: FuelClass;
+  lcv: number;
+  wttFactor: number;
+  cfCo2: number;
+  cfCh4: number;
+  cfN2o: number;
+  slipApplies?: boolean; // gas fuels subject to methane slip
+};
+
+// Well-to-wake intensity inputs (Annex I) - mass in tonnes, LCV in MJ/g,
+// WtT factor in gCO2e/MJ, TtW factors in g of gas per g of fuel,
+// Cslip in % of fuel mass
+export type FuelMixEntry = {
+  fuelType: string;
+  fuelClass?: FuelClass;
+  massTonnes: number;
+  lcv: number;
+  wttFactor: number;
+  cfCo2: number;
+  cfCh4: number;
+  cfN2o: number;
+  cslip?: number;
+};
+
+export type GasBreakdown = {
+  co2: number;
+  ch4: number;
+  n2o: number;
+};
+
+export type FuelIntensityLine = {
+  fuelType: string;
+  fuelClass?: FuelClass;
+  massTonnes: number;
+  energyMJ: number;
+  wttGco2eq: number;
+  ttwGco2eq: number;
+  ttwByGas: GasBreakdown;
+  cslip: number;
+  slipGco2eq: number; // CH4 slip share of ttwByGas.ch4
+};
+
+export type GhgIntensityBreakdown = {
+  energyMJ: number;
+  rfnboEnergyMJ: number;
+  wttGco2eq: number;
+  ttwGco2eq: number;
+  ttwByGas: GasBreakdown;
+  wttIntensity: number;
+  ttwIntensity: number;
+  ghgIntensity: number; // gCO2e/MJ well-to-wake
+  fuels: FuelIntensityLine[];
+};
+
+// Factors omitted from a request fall back to the fuel catalogue defaults
+export type FuelMixInput = Pick<FuelMixEntry, "fuelType" | "massTonnes"> &
+  Partial<Omit<FuelMixEntry, "fuelType" | "massTonnes">>;
+
+export type IntensityCalculationRequest = {
+  fuels: FuelMixInput[];
+  declaredIntensity?: number;
+  tolerance?: number;
+};
+
+export type IntensityCalculationResponse = GhgIntensityBreakdown & {
+  declaredIntensity?: number;
+  deviation?: number;
+  mismatch: boolean;
+};
+
+export type RouteFuelLinesRequest = {
+  lines: Array<{
+    fuelType: string;
+    massTonnes: number;
+    consumer?: string | null;
+  }>;
+};
+
+export type RouteFuelLinesResponse = {
+  routeId: string;
+  lines: RouteFuelLine[];
+  breakdown: GhgIntensityBreakdown | null;
+};
+
+export type PenaltyResponse = {
+  shipId: string;
+  year: number;
+  cb: number;
+  actualIntensity: number;
+  deficit: number;
+  vlsfoEquivalentTonnes: number;
+  basePenalty: number;
+  consecutiveDeficitYears: number;
+  escalationFactor: number;
+  penalty: number; // €
+  rfnboPenalty: number; // € - RFNBO sub-target shortfall, from 2034
+};
+
+export type PortCallOpsStatus = "not_applicable" | "compliant" | "exempt" | "non_compliant";
+
+export type PortCallAssessment = {
+  portCallId: number;
+  portCode: string;
+  berthHours: number;
+  status: PortCallOpsStatus;
+  nonCompliantHours: number;
+  penalty: number; // €
+};
+
+export type OpsComplianceResponse = {
+  shipId: string;
+  year: number;
+  vesselType: string;
+  applies: boolean;
+  nonCompliantCalls: number;
+  nonCompliantHours: number;
+  penalty: number; // €
+  calls: PortCallAssessment[];
+};
+
+export type BankBalance = {
+  originYear: number;
+  banked: number;
+  applied: number;
+  available: number;
 };
 
 export type PoolCreationRequest = {
@@ -137,5 +684,77 @@ export type PoolCreationResponse = {
   }>;
   totalSum: number;
   valid: boolean;
+  rounding?: BalanceRounding;
   errors?: string[];
 };
+
+// Fleet-level position of a company for one reporting period
+export type FleetYearSummary = {
+  year: number;
+  shipCount: number;
+  cb: number; // gCO2eq, recorded balances (after banking, borrowing and pooling) net across the fleet
+  surplus: number; // gCO2eq, sum of positive ship balances
+  deficit: number; // gCO2eq, positive magnitude of negative ship balances
+  banked: number; // gCO2eq, net banked in the period
+  borrowed: number; // gCO2eq
+  penaltyExposure: number; // €
+};
+
+export type CompanySummaryResponse = {
+  company: Company;
+  ships: string[]; // IMO numbers attributed to the company in any reported year
+  years: FleetYearSummary[];
+  rounding: BalanceRounding;
+};
+
+// Bunkered vs reported fuel mass for one fuel type
+export type BunkerReconciliationLine = {
+  fuelType: string;
+  bunkeredTonnes: number;
+  reportedTonnes: number;
+  varianceTonnes: number; // reported − bunkered
+  variancePct: number | null; // share of bunkered mass; null when nothing was bunkered
+  flagged: boolean;
+};
+
+// Per ship per reporting period; totals flag on the same threshold as fuel lines
+export type BunkerReconciliation = Omit<BunkerReconciliationLine, "fuelType"> & {
+  shipId: string;
+  year: number;
+  fuels: BunkerReconciliationLine[];
+};
+
+export type BunkerReconciliationResponse = {
+  threshold: number;
+  periods: BunkerReconciliation[];
+};
+
+export type LedgerDiscrepancy = {
+  entryId: number;
+  message: string;
+};
+
+export type ComplianceLedgerResponse = {
+  shipId: string;
+  year: number;
+  entries: LedgerEntry[];
+  balance: number; // Projection over all entries
+  computedBalance: number; // Projection over computation entries only
+  consistent: boolean;
+  discrepancies: LedgerDiscrepancy[];
+  rounding: BalanceRounding;
+};
+
+// Error body returned by every API endpoint
+export type ApiErrorCode = "invalid_request" | "not_found" | "validation_failed" | "internal_error";
+
+export type ApiErrorDetail = {
+  path?: string; // Dotted path of the offending field, when the error concerns one
+  message: string;
+};
+
+export type ApiErrorResponse = {
+  code: ApiErrorCode;
+  message: string;
+  details: ApiErrorDetail[];
+};